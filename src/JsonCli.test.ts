@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { rmSync } from "fs";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runCli } from "./JsonCli.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "safe-json-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function cli(args: string[], stdin = "") {
+  let stdout = "";
+  let stderr = "";
+  const status = await runCli(args, {
+    readStdin: async () => stdin,
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { status, stdout, stderr };
+}
+
+describe("safe-json", () => {
+  it("should repair standard input and print standard JSON", async () => {
+    const result = await cli(
+      ["parse", "--mode", "json5"],
+      "Sure! ```json\n{'a': [1, 2,], // note\n b: 12345678901234567890}\n```"
+    );
+    expect(result).toEqual({
+      status: 0,
+      stdout:
+        '{\n  "a": [\n    1,\n    2\n  ],\n  "b": 12345678901234567890\n}\n',
+      stderr: "",
+    });
+  });
+
+  it("should print compact output and selected values", async () => {
+    const input = '{"agents": [{"name": "a"}, {"name": "b"}]}';
+    expect((await cli(["parse", "--compact"], input)).stdout).toBe(
+      '{"agents":[{"name":"a"},{"name":"b"}]}\n'
+    );
+    expect(
+      (
+        await cli(
+          ["parse", "--select", "$.agents[*].name", "--indent", "0"],
+          input
+        )
+      ).stdout
+    ).toBe('{"$.agents[*].name":["a","b"]}\n');
+  });
+
+  it("should report failures and keep going", async () => {
+    await writeFile(join(dir, "good.json"), "[1]");
+    await writeFile(join(dir, "bad.json"), "{oops");
+    const result = await cli([
+      "parse",
+      "--compact",
+      join(dir, "bad.json"),
+      join(dir, "good.json"),
+    ]);
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("[1]\n");
+    expect(result.stderr).toContain(
+      `${join(dir, "bad.json")}: Failed to parse`
+    );
+  });
+
+  it("should check files strictly with exit codes", async () => {
+    await writeFile(join(dir, "strict.json"), '{"a": 1}\n');
+    await writeFile(join(dir, "loose.json"), "{\n  'a': 1,\n}");
+    expect(await cli(["check", join(dir, "strict.json")])).toEqual({
+      status: 0,
+      stdout: "",
+      stderr: "",
+    });
+
+    const result = await cli(["check", join(dir, "*.json")]);
+    expect(result.status).toBe(1);
+    expect(result.stderr).toBe(
+      [
+        `${join(dir, "loose.json")}:2:3: Single-quoted string`,
+        `${join(dir, "loose.json")}:2:9: Trailing comma`,
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should extract every value from a transcript", async () => {
+    const transcript = [
+      "First call:",
+      '```json\n{"tool": "search"}\n```',
+      'Then {"tool": "browse", "args": [1]} and done.',
+    ].join("\n");
+    expect(await cli(["extract"], transcript)).toEqual({
+      status: 0,
+      stdout: '{"tool":"search"}\n{"tool":"browse","args":[1]}\n',
+      stderr: "",
+    });
+    expect((await cli(["extract"], "no json here")).status).toBe(1);
+  });
+
+  it("should format in place, keeping comments", async () => {
+    const file = join(dir, "config.json");
+    await writeFile(file, '{// model\n"model": "small", "tools": ["a",]}');
+    const result = await cli(["format", "--in-place", file]);
+
+    expect(result).toEqual({ status: 0, stdout: "", stderr: "" });
+    expect(await readFile(file, "utf-8")).toBe(
+      '{\n  // model\n  "model": "small",\n  "tools": [\n    "a"\n  ]\n}\n'
+    );
+  });
+
+  it("should report files that cannot be written back with status 2", async () => {
+    const bad = join(dir, "bad.json");
+    const gone = join(dir, "gone", "config.json");
+    const good = join(dir, "good.json");
+    await mkdir(join(dir, "gone"));
+    await writeFile(bad, "{");
+    await writeFile(gone, "{'a': 1}");
+    await writeFile(good, "{'b': 2}");
+
+    // Remove a directory after the files are read, when the first one fails
+    let stderr = "";
+    const status = await runCli(["format", "-i", bad, gone, good], {
+      readStdin: async () => "",
+      stdout: () => {},
+      stderr: (text) => {
+        stderr += text;
+        rmSync(join(dir, "gone"), { recursive: true, force: true });
+      },
+    });
+
+    expect(status).toBe(2);
+    expect(stderr).toContain(`${bad}: `);
+    expect(stderr).toContain(`safe-json: Cannot write ${gone}: `);
+    expect(await readFile(good, "utf-8")).toBe('{\n  "b": 2\n}\n');
+  });
+
+  it("should not write back a file that holds text around the JSON", async () => {
+    const notes = join(dir, "notes.md");
+    const text = 'Settings:\n\n```json\n{"a": 1}\n```\n\nMore notes.\n';
+    await writeFile(notes, text);
+    for (const command of ["format", "parse"]) {
+      const result = await cli([command, "-i", notes]);
+      expect(result.status).toBe(2);
+      expect(result.stderr).toContain(`safe-json: Cannot write ${notes}: `);
+      expect(await readFile(notes, "utf-8")).toBe(text);
+    }
+  });
+
+  it("should format NaN and Infinity as the source wrote them", async () => {
+    const file = join(dir, "limits.jsonc");
+    await writeFile(
+      file,
+      '{/* none */ "low": -Infinity, "high": Infinity, "x": NaN}'
+    );
+    expect(await cli(["format", "-i", file])).toEqual({
+      status: 0,
+      stdout: "",
+      stderr: "",
+    });
+    expect(await readFile(file, "utf-8")).toBe(
+      '{\n  /* none */\n  "low": -Infinity,\n  "high": Infinity,\n  "x": NaN\n}\n'
+    );
+  });
+
+  it("should report safeguard failures of extract as failed inputs", async () => {
+    const result = await cli(["extract"], "[".repeat(1500));
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("<stdin>: ");
+    expect(result.stderr).toContain("deep");
+  });
+
+  it("should expand recursive globs", async () => {
+    await mkdir(join(dir, "a", "b"), { recursive: true });
+    await writeFile(join(dir, "a", "one.json"), "1");
+    await writeFile(join(dir, "a", "b", "two.json"), "2");
+    await writeFile(join(dir, "a", "b", "skip.txt"), "3");
+    const result = await cli(["parse", join(dir, "**", "*.json")]);
+    expect(result.stdout).toBe("2\n1\n");
+  });
+
+  it("should only read directories a glob can match", async () => {
+    await mkdir(join(dir, ".git"), { recursive: true });
+    await mkdir(join(dir, "node_modules", "x"), { recursive: true });
+    await mkdir(join(dir, "src", "deep"), { recursive: true });
+    await writeFile(join(dir, ".git", "a.json"), "1");
+    await writeFile(join(dir, "node_modules", "x", "b.json"), "2");
+    await writeFile(join(dir, "src", "c.json"), "3");
+    await writeFile(join(dir, "src", "deep", "d.json"), "4");
+    await writeFile(join(dir, "e.json"), "5");
+
+    const read = (pattern: string) =>
+      cli(["parse", "--compact", join(dir, ...pattern.split("/"))]);
+    expect((await read("**/*.json")).stdout).toBe("5\n2\n3\n4\n");
+    expect((await read("src/*/*.json")).stdout).toBe("4\n");
+    expect((await read("s?c/**/[cd].json")).stdout).toBe("3\n4\n");
+    expect((await read(".git/*.json")).stdout).toBe("1\n");
+  });
+
+  it("should reject bad usage with status 2", async () => {
+    for (const args of [
+      [],
+      ["lint"],
+      ["parse", "--bogus"],
+      ["parse", "--mode", "yaml"],
+      ["check", "--in-place", "x.json"],
+      ["parse", "--in-place"],
+      ["parse", join(dir, "missing.json")],
+      ["parse", join(dir, "*.json")],
+    ]) {
+      const result = await cli(args);
+      expect(result.status, args.join(" ")).toBe(2);
+      expect(result.stderr).not.toBe("");
+    }
+    expect(await cli(["--help"])).toMatchObject({ status: 0, stderr: "" });
+  });
+});
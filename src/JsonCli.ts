@@ -0,0 +1,411 @@
+import { parseArgs } from "node:util";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  tryParseJson,
+  type JsonParseMode,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import { lintJson } from "./JsonLint.js";
+import { JsonParseError } from "./JsonParseError.js";
+import { extractAllJson } from "./JsonExtractor.js";
+import { stringifyJson } from "./JsonStringifier.js";
+import type { JsonRepairReport } from "./JsonRepairReport.js";
+
+/**
+ * Where the command line tool reads and writes, other than files
+ */
+export interface CliIO {
+  /** Read the whole of standard input */
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+type Command = "parse" | "check" | "extract" | "format";
+
+interface Input {
+  /** Name to report the input by */
+  name: string;
+  /** Path of the file, absent for standard input */
+  file?: string;
+  text: string;
+}
+
+interface CommandOptions {
+  parse: JsonParseOptions;
+  indent: number | string;
+}
+
+/**
+ * The text to print or write back, and whether text around the JSON was left
+ * out of it, or why the input failed
+ */
+type CommandResult =
+  { output: string; discardedText?: boolean } | { error: string };
+
+const USAGE = `Usage: safe-json <command> [options] [files...]
+
+Commands:
+  parse     Repair the input and print it as standard JSON
+  check     Report everything that is not standard JSON; exits 1 if any
+  extract   Print every JSON value found in text or Markdown, one per line
+  format    Reformat the input, keeping its comments
+
+Reads standard input when no file is given or for "-". Files may be glob
+patterns such as "logs/**/*.json".
+
+Options:
+  --mode <mode>        Grammar: lenient (default), json5 or strict
+  --indent <n|tab>     Indentation of the output (default 2, 0 for extract)
+  --compact            Print without indentation
+  --repair             Close documents cut off mid-way
+  --select <selector>  Print only values matching a JSON Pointer or JSONPath
+                       (parse; may be repeated)
+  -i, --in-place       Write the result back to each file (parse, format)
+  -h, --help           Show this help
+
+Exit status: 0 on success, 1 if any input failed, 2 for usage or file errors.
+`;
+
+const COMMANDS: Record<
+  Command,
+  (input: Input, options: CommandOptions) => CommandResult
+> = {
+  parse({ name, text }, { parse, indent }) {
+    const result = tryParseJson(text, { ...parse, report: true });
+    if (!result.success) return { error: `${name}: ${result.error}` };
+    return {
+      output: `${stringifyJson(result.data, { indent, bigint: true })}\n`,
+      discardedText: discardedText(result.report),
+    };
+  },
+
+  check({ name, text }, { parse }) {
+    const { valid, issues, parseError } = lintJson(text, parse);
+    if (valid) return { output: "" };
+    const problems = parseError
+      ? [`${parseError.line}:${parseError.column}: ${parseError.reason}`]
+      : issues.map(
+          ({ line, column, message }) => `${line}:${column}: ${message}`
+        );
+    return {
+      error: problems.map((problem) => `${name}:${problem}`).join("\n"),
+    };
+  },
+
+  extract({ name, text }, { parse, indent }) {
+    let found;
+    try {
+      found = extractAllJson(text, parse);
+    } catch (error) {
+      // Safeguards fail the whole input rather than a single candidate
+      if (!(error instanceof JsonParseError)) throw error;
+      return { error: `${name}: ${error.message}` };
+    }
+    if (found.length === 0) return { error: `${name}: No JSON found` };
+    return {
+      output: found
+        .map(
+          ({ value }) => `${stringifyJson(value, { indent, bigint: true })}\n`
+        )
+        .join(""),
+    };
+  },
+
+  format({ name, text }, { parse, indent }) {
+    const result = tryParseJson(text, {
+      ...parse,
+      keepComments: true,
+      report: true,
+    });
+    if (!result.success) return { error: `${name}: ${result.error}` };
+    // Keep the NaN and Infinity the source used rather than writing null
+    const kinds = new Set(result.report?.repairs.map(({ kind }) => kind));
+    const output = stringifyJson(result.data, {
+      ...(parse.mode && { mode: parse.mode }),
+      ...(kinds.has("nan") && { nan: true }),
+      ...(kinds.has("infinity") && { infinity: true }),
+      indent,
+      bigint: true,
+      ...(result.comments && { comments: result.comments }),
+    });
+    return {
+      output: `${output}\n`,
+      discardedText: discardedText(result.report),
+    };
+  },
+};
+
+function discardedText(report: JsonRepairReport | undefined): boolean {
+  return (
+    report !== undefined &&
+    (report.discardedLeadingText || report.discardedTrailingText)
+  );
+}
+
+/**
+ * Thrown for a command line that cannot be run, reported with the usage hint
+ */
+class UsageError extends Error {}
+
+/**
+ * Run the `safe-json` command line tool
+ * @param args - The arguments after the program name
+ * @param io - Standard input and output
+ * @returns The exit status
+ */
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  try {
+    return await run(args, io);
+  } catch (error) {
+    if (
+      !(error instanceof UsageError) &&
+      !(error instanceof TypeError && "code" in error)
+    ) {
+      throw error;
+    }
+    io.stderr(
+      `safe-json: ${error.message}\nRun "safe-json --help" for usage.\n`
+    );
+    return 2;
+  }
+}
+
+async function run(args: string[], io: CliIO): Promise<number> {
+  // parseArgs throws a TypeError with an ERR_PARSE_ARGS code for bad options
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string" },
+      indent: { type: "string" },
+      compact: { type: "boolean", default: false },
+      repair: { type: "boolean", default: false },
+      select: { type: "string", multiple: true },
+      "in-place": { type: "boolean", short: "i", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...patterns] = positionals;
+  if (values.help || command === undefined) {
+    (values.help ? io.stdout : io.stderr)(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (!Object.hasOwn(COMMANDS, command)) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+  const inPlace = values["in-place"];
+  if (inPlace && command !== "parse" && command !== "format") {
+    throw new UsageError(`--in-place does not apply to ${command}`);
+  }
+  if (values.select && command !== "parse") {
+    throw new UsageError(`--select does not apply to ${command}`);
+  }
+
+  const options: CommandOptions = {
+    parse: {
+      ...(values.mode !== undefined && { mode: parseMode(values.mode) }),
+      ...(values.repair && { repairTruncated: true }),
+      ...(values.select && { select: values.select }),
+      bigint: true,
+    },
+    indent: values.compact
+      ? 0
+      : parseIndent(values.indent, command === "extract" ? 0 : 2),
+  };
+
+  const inputs = await readInputs(patterns, io);
+  if (inPlace && inputs.some((input) => input.file === undefined)) {
+    throw new UsageError("--in-place needs files, not standard input");
+  }
+
+  let status = 0;
+  for (const input of inputs) {
+    const result = COMMANDS[command as Command](input, options);
+    if ("error" in result) {
+      io.stderr(`${result.error}\n`);
+      status = Math.max(status, 1);
+    } else if (!inPlace) {
+      io.stdout(result.output);
+    } else if (result.discardedText) {
+      // Writing back only the JSON would lose the rest of the file
+      io.stderr(
+        `safe-json: Cannot write ${input.file}: it holds text around the JSON\n`
+      );
+      status = 2;
+    } else if (input.file !== undefined && result.output !== input.text) {
+      // A file that cannot be written back fails like bad usage, but the
+      // other files are still processed
+      try {
+        await writeFile(input.file, result.output);
+      } catch (error) {
+        io.stderr(
+          `safe-json: Cannot write ${input.file}: ${(error as Error).message}\n`
+        );
+        status = 2;
+      }
+    }
+  }
+  return status;
+}
+
+function parseMode(mode: string): JsonParseMode {
+  if (mode === "lenient" || mode === "json5" || mode === "strict") return mode;
+  throw new UsageError(`Unknown mode "${mode}"`);
+}
+
+function parseIndent(
+  indent: string | undefined,
+  fallback: number
+): number | string {
+  if (indent === undefined) return fallback;
+  if (indent === "tab") return "\t";
+  if (/^\d+$/.test(indent)) return Number(indent);
+  throw new UsageError(`Invalid indent "${indent}"`);
+}
+
+/**
+ * Read standard input and the files matching each pattern, in order
+ */
+async function readInputs(patterns: string[], io: CliIO): Promise<Input[]> {
+  const inputs: Input[] = [];
+  for (const pattern of patterns.length > 0 ? patterns : ["-"]) {
+    if (pattern === "-") {
+      inputs.push({ name: "<stdin>", text: await io.readStdin() });
+      continue;
+    }
+    const files = await expandGlob(pattern);
+    if (files.length === 0) {
+      throw new UsageError(`No files match "${pattern}"`);
+    }
+    for (const file of files) {
+      try {
+        inputs.push({ name: file, file, text: await readFile(file, "utf-8") });
+      } catch (error) {
+        throw new UsageError(
+          `Cannot read ${file}: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+  return inputs;
+}
+
+/**
+ * List the files matching a pattern with `*`, `?`, `**` or `[...]`, sorted;
+ * a pattern without any is returned as is. Only directories that can hold a
+ * match are read, and directories starting with a dot only when the pattern
+ * names them.
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => /[*?[]/.test(segment));
+  if (firstGlob === -1) return [pattern];
+
+  const base = segments.slice(0, firstGlob).join("/");
+  const globs = segments
+    .slice(firstGlob)
+    .map((glob): GlobSegment =>
+      glob === "**" ? "**" : { glob, regExp: globToRegExp(glob) }
+    );
+  const files: string[] = [];
+  await walkGlob(base || ".", base, globs, [0], files);
+  return files.sort();
+}
+
+/** A segment of a glob pattern, or `**` for any number of directories */
+type GlobSegment = "**" | { glob: string; regExp: RegExp };
+
+/**
+ * Collect the files below `dir` that complete the pattern from one of the
+ * segment positions reached so far
+ */
+async function walkGlob(
+  dir: string,
+  path: string,
+  globs: GlobSegment[],
+  positions: number[],
+  files: string[]
+): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const directory = entry.isDirectory();
+    if (!directory && !entry.isFile()) continue;
+    const next = advanceGlob(globs, positions, entry.name, directory);
+    const child = path ? join(path, entry.name) : entry.name;
+    if (!directory) {
+      if (skipAnyDirs(globs, next).has(globs.length)) files.push(child);
+    } else if (next.some((position) => position < globs.length)) {
+      await walkGlob(join(dir, entry.name), child, globs, next, files);
+    }
+  }
+}
+
+/**
+ * Move the segment positions past one name of a path
+ */
+function advanceGlob(
+  globs: GlobSegment[],
+  positions: number[],
+  name: string,
+  directory: boolean
+): number[] {
+  const hidden = directory && name.startsWith(".");
+  const next = new Set<number>();
+  for (const position of skipAnyDirs(globs, positions)) {
+    const segment = globs[position];
+    if (segment === "**") {
+      if (!hidden) next.add(position);
+    } else if (
+      segment?.regExp.test(name) &&
+      (!hidden || segment.glob.startsWith("."))
+    ) {
+      next.add(position + 1);
+    }
+  }
+  return [...next];
+}
+
+/**
+ * Add the positions reached by letting each `**` match no directory
+ */
+function skipAnyDirs(globs: GlobSegment[], positions: number[]): Set<number> {
+  const result = new Set(positions);
+  for (const position of result) {
+    if (globs[position] === "**") result.add(position + 1);
+  }
+  return result;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob
+          .slice(i + 1, end)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,83 @@
+import type { LenientParseOutput, SourceSpan } from "./LenientParser.js";
+
+/**
+ * Comments attached to one value, each with its `//` or `/* *\/` delimiters
+ */
+export interface JsonCommentSet {
+  /** Comments on the lines before the value */
+  before?: string[];
+  /** Comments after the value (and its comma) on the same line */
+  after?: string[];
+  /** Comments before the closing bracket of an object or array */
+  inside?: string[];
+}
+
+/**
+ * Comments of a document keyed by the JSON Pointer of the value they belong to
+ */
+export type JsonComments = Map<string, JsonCommentSet>;
+
+/**
+ * Attach every comment of a parsed document to a nearby value: to the value
+ * it follows on the same line, otherwise to the next value in the same
+ * container, otherwise to the end of the container itself
+ */
+export function collectComments(
+  content: string,
+  { extensions, spans = new Map() }: LenientParseOutput
+): JsonComments {
+  const comments: JsonComments = new Map();
+  const values = [...spans];
+  const children = new Map<string | null, Array<[string, SourceSpan]>>();
+  for (const entry of values) {
+    const siblings = children.get(parentPointer(entry[0])) ?? [];
+    siblings.push(entry);
+    children.set(parentPointer(entry[0]), siblings);
+  }
+
+  const attach = (
+    pointer: string,
+    place: keyof JsonCommentSet,
+    text: string
+  ): void => {
+    const set = comments.get(pointer) ?? {};
+    (set[place] ??= []).push(text);
+    comments.set(pointer, set);
+  };
+
+  for (const { kind, start, end } of extensions) {
+    if (kind !== "comment") continue;
+    const text = content.slice(start, end);
+
+    // Values are in source order, so the last one enclosing the comment is
+    // the innermost container
+    let container: string | null = null;
+    for (const [pointer, span] of values) {
+      if (span.start > start) break;
+      if (span.end >= end) container = pointer;
+    }
+
+    const siblings = children.get(container) ?? [];
+    const previous = siblings.findLast(([, span]) => span.end <= start);
+    const next = siblings.find(([, span]) => span.start >= end);
+
+    if (previous && !/[\n\r]/.test(content.slice(previous[1].end, start))) {
+      attach(previous[0], "after", text);
+    } else if (next) {
+      attach(next[0], "before", text);
+    } else if (container !== null) {
+      attach(container, "inside", text);
+    } else if (previous) {
+      attach(previous[0], "after", text);
+    }
+  }
+
+  return comments;
+}
+
+/**
+ * Pointer of the enclosing value, or null for the root
+ */
+function parentPointer(pointer: string): string | null {
+  return pointer === "" ? null : pointer.slice(0, pointer.lastIndexOf("/"));
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { applyEdits, createJsonEditor } from "./JsonEditor.js";
+import { findNode, parseJsonTree } from "./JsonTree.js";
+import { parseJson } from "./JsonParser.js";
+
+const config = [
+  "// Agent settings",
+  "{",
+  "  // Model to use",
+  '  "model": "small",',
+  '  "temperature": 0.2, // keep it low',
+  '  "tools": [',
+  '    "search",',
+  '    "browse" /* beta */',
+  "  ],",
+  '  "limits": { "tokens": 1000 }',
+  "}",
+  "",
+].join("\n");
+
+describe("parseJsonTree", () => {
+  it("should locate every property, key and value", () => {
+    const tree = parseJsonTree(config);
+    expect(tree.type).toBe("object");
+    expect(tree.children!.map((property) => property.value)).toEqual([
+      "model",
+      "temperature",
+      "tools",
+      "limits",
+    ]);
+
+    const [key, value] = tree.children![1]!.children!;
+    expect(config.slice(key!.offset, key!.offset + key!.length)).toBe(
+      '"temperature"'
+    );
+    expect(value).toMatchObject({ type: "number", value: 0.2 });
+    expect(config.slice(value!.offset, value!.offset + value!.length)).toBe(
+      "0.2"
+    );
+  });
+
+  it("should find nodes by path", () => {
+    const tree = parseJsonTree(config);
+    expect(findNode(tree, ["tools", 1])).toMatchObject({
+      type: "string",
+      value: "browse",
+    });
+    expect(findNode(tree, ["limits", "tokens"])?.value).toBe(1000);
+    expect(findNode(tree, ["missing"])).toBeUndefined();
+    expect(findNode(tree, ["tools", "x"])).toBeUndefined();
+  });
+
+  it("should keep properties in source order", () => {
+    const tree = parseJsonTree('{"b": 1, "10": 2, "a": 3}');
+    expect(tree.children!.map((property) => property.value)).toEqual([
+      "b",
+      "10",
+      "a",
+    ]);
+  });
+});
+
+describe("createJsonEditor", () => {
+  it("should replace a value and nothing else", () => {
+    const editor = createJsonEditor(config);
+    const edits = editor.setValue(["temperature"], 0.7);
+
+    expect(edits).toEqual([
+      { offset: config.indexOf("0.2"), length: 3, content: "0.7" },
+    ]);
+    expect(editor.text).toBe(config.replace("0.2", "0.7"));
+    expect(applyEdits(config, edits)).toBe(editor.text);
+  });
+
+  it("should add a property after the last one with its indentation", () => {
+    const editor = createJsonEditor(config);
+    editor.setValue(["retries"], 3);
+
+    expect(editor.text).toContain(
+      '  "limits": { "tokens": 1000 },\n  "retries": 3\n}'
+    );
+    expect(parseJson(editor.text).retries).toBe(3);
+  });
+
+  it("should create missing objects on the way", () => {
+    const editor = createJsonEditor(config);
+    editor.setValue(["memory", "store"], { kind: "redis" });
+
+    expect(editor.text).toContain(
+      [
+        '  "memory": {',
+        '    "store": {',
+        '      "kind": "redis"',
+        "    }",
+        "  }",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("should add to an inline object inline", () => {
+    const editor = createJsonEditor(config);
+    editor.setValue(["limits", "time"], 30);
+
+    expect(editor.text).toContain('"limits": { "tokens": 1000, "time": 30 }');
+  });
+
+  it("should remove a property with its line and trailing comment", () => {
+    const editor = createJsonEditor(config);
+    editor.remove(["temperature"]);
+
+    expect(editor.text).not.toContain("keep it low");
+    expect(editor.text).toContain('  "model": "small",\n  "tools": [');
+    expect(editor.text).toContain("// Model to use");
+  });
+
+  it("should remove the last element and the comma before it", () => {
+    const editor = createJsonEditor(config);
+    editor.remove(["tools", 1]);
+
+    expect(editor.text).toContain('  "tools": [\n    "search"\n  ],');
+    expect(parseJson(editor.text).tools).toEqual(["search"]);
+  });
+
+  it("should remove the last property from the same line", () => {
+    const editor = createJsonEditor('{"a": 1, "b": 2}');
+    editor.remove(["b"]);
+    expect(editor.text).toBe('{"a": 1}');
+    editor.remove(["a"]);
+    expect(editor.text).toBe("{}");
+    expect(editor.remove(["a"])).toEqual([]);
+  });
+
+  it("should insert into arrays and append to them", () => {
+    const editor = createJsonEditor(config);
+    editor.insertIntoArray(["tools"], 0, "code");
+    editor.insertIntoArray(["tools"], 3, "shell");
+
+    expect(parseJson(editor.text).tools).toEqual([
+      "code",
+      "search",
+      "browse",
+      "shell",
+    ]);
+    expect(editor.text).toContain(
+      [
+        '  "tools": [',
+        '    "code",',
+        '    "search",',
+        '    "browse", /* beta */',
+        '    "shell"',
+        "  ],",
+      ].join("\n")
+    );
+  });
+
+  it("should fill empty containers", () => {
+    const editor = createJsonEditor('{\n  "list": [],\n  "map": {}\n}');
+    editor.insertIntoArray(["list"], 0, 1);
+    editor.setValue(["map", "key"], true);
+
+    expect(editor.text).toBe(
+      '{\n  "list": [\n    1\n  ],\n  "map": {\n    "key": true\n  }\n}'
+    );
+  });
+
+  it("should keep trailing commas and CRLF line breaks", () => {
+    const editor = createJsonEditor('{\r\n\t"a": 1,\r\n}', {
+      allowTrailingCommas: true,
+    });
+    editor.setValue(["b"], [1]);
+
+    expect(editor.text).toBe(
+      '{\r\n\t"a": 1,\r\n\t"b": [\r\n\t\t1\r\n\t],\r\n}'
+    );
+  });
+
+  it("should reject impossible edits", () => {
+    const editor = createJsonEditor(config);
+    expect(() => editor.insertIntoArray(["model"], 0, 1)).toThrow(TypeError);
+    expect(() => editor.insertIntoArray(["tools"], 5, 1)).toThrow(RangeError);
+    expect(() => editor.setValue(["tools", 7], 1)).toThrow(RangeError);
+    expect(() => editor.setValue(["model", "name"], 1)).toThrow(RangeError);
+    expect(() => editor.remove([])).toThrow(RangeError);
+    expect(editor.text).toBe(config);
+  });
+});
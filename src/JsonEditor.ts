@@ -0,0 +1,369 @@
+import {
+  findNode,
+  parseJsonTree,
+  type JsonNode,
+  type JsonTreeOptions,
+} from "./JsonTree.js";
+import { formatJsonPath, type JsonPath } from "./JsonPath.js";
+import { stringifyJson } from "./JsonStringifier.js";
+
+/**
+ * Replace `length` characters at `offset` with `content`
+ */
+export interface JsonEdit {
+  offset: number;
+  length: number;
+  content: string;
+}
+
+export interface JsonEditOptions extends JsonTreeOptions {
+  /**
+   * Indentation of inserted objects and arrays; detected from the document
+   * by default
+   */
+  indent?: number | string;
+}
+
+export interface JsonEditor {
+  /** The document with every edit so far applied */
+  readonly text: string;
+  /** Syntax tree of the current text */
+  readonly tree: JsonNode;
+  /**
+   * Replace the value at a path, or add it, along with any missing objects
+   * on the way, when it does not exist yet
+   */
+  setValue(path: JsonPath, value: unknown): JsonEdit[];
+  /** Remove a property or array element; nothing happens if it is missing */
+  remove(path: JsonPath): JsonEdit[];
+  /** Insert a value into the array at `path` before `index`, or append it */
+  insertIntoArray(path: JsonPath, index: number, value: unknown): JsonEdit[];
+}
+
+/**
+ * Create an editor for a document, such as a commented config file, that
+ * changes only the text of the values it edits. Comments, key order and
+ * formatting everywhere else are kept, and new members follow the layout and
+ * indentation of their siblings.
+ *
+ * Every method applies its change to `text` and returns the edits it made,
+ * with offsets into the text before the change. New values are written as
+ * standard JSON.
+ * @param text - The document to edit
+ * @param options - Grammar options, as for `parseJson`, and indentation
+ * @throws JsonParseError if the document cannot be parsed
+ */
+export function createJsonEditor(
+  text: string,
+  options: JsonEditOptions = {}
+): JsonEditor {
+  const { indent, ...treeOptions } = options;
+  let tree = parseJsonTree(text, treeOptions);
+
+  const unit =
+    typeof indent === "number"
+      ? " ".repeat(indent)
+      : (indent ?? detectIndent(text));
+
+  const newline = text.includes("\r\n") ? "\r\n" : "\n";
+  const format = (value: unknown, base: string): string =>
+    stringifyJson(value, { indent: unit }).replace(/\n/g, newline + base);
+
+  const commit = (edits: JsonEdit[]): JsonEdit[] => {
+    text = applyEdits(text, edits);
+    tree = parseJsonTree(text, treeOptions);
+    return edits;
+  };
+
+  /**
+   * Add a member after the last one in a container, following its layout
+   */
+  const append = (
+    container: JsonNode,
+    member: (base: string, inline: boolean) => string
+  ): JsonEdit[] => {
+    const items = container.children!;
+    const last = items.at(-1);
+    const close = container.offset + container.length - 1;
+
+    if (!last) {
+      const base = lineIndent(text, container.offset);
+      const interior = text.slice(container.offset + 1, close);
+      if (!unit) {
+        return [insert(container.offset + 1, member(base, true))];
+      }
+      const content = newline + base + unit + member(base + unit, false);
+      return /^\s*$/.test(interior)
+        ? [replace(container.offset + 1, close, content + newline + base)]
+        : [insert(container.offset + 1, content)];
+    }
+
+    // Keep a trailing comma style: the new member gets one if the last had
+    const end = last.offset + last.length;
+    const comma = findComma(text, end);
+    const after = comma === -1 ? end : comma + 1;
+    const separator = comma === -1 ? "," : "";
+    const trailing = comma === -1 ? "" : ",";
+
+    if (ownLineStart(text, last.offset) === -1) {
+      return [insert(after, `${separator} ${member("", true)}${trailing}`)];
+    }
+
+    const base = lineIndent(text, last.offset);
+    const line = base + member(base, false) + trailing;
+    const lineEnd = lineEndAfter(text, after);
+    if (lineEnd === -1) {
+      return [insert(after, separator + newline + line)];
+    }
+    // Put the comma right after the value, before any comment on its line
+    const edits = separator ? [insert(end, separator)] : [];
+    return [...edits, insert(lineEnd, line + newline)];
+  };
+
+  const setValue = (path: JsonPath, value: unknown): JsonEdit[] => {
+    const node = findNode(tree, path);
+    if (node) {
+      const base = lineIndent(text, node.offset);
+      return commit([
+        replace(node.offset, node.offset + node.length, format(value, base)),
+      ]);
+    }
+
+    // Find the closest existing ancestor and nest the value in new objects
+    let depth = path.length - 1;
+    let parent = findNode(tree, path.slice(0, depth));
+    while (!parent) {
+      parent = findNode(tree, path.slice(0, --depth));
+    }
+    const segment = path[depth]!;
+    const nested = path.slice(depth + 1).reduceRight((inner: unknown, key) => {
+      if (typeof key === "number") {
+        throw new RangeError(
+          `Cannot create array element ${formatJsonPath(path)}`
+        );
+      }
+      return { [key]: inner };
+    }, value);
+
+    if (parent.type === "object") {
+      const key = JSON.stringify(String(segment));
+      return commit(
+        append(
+          parent,
+          (base, inline) =>
+            `${key}: ${inline ? stringifyJson(nested) : format(nested, base)}`
+        )
+      );
+    }
+    if (parent.type === "array" && segment === parent.children!.length) {
+      return commit(
+        append(parent, (base, inline) =>
+          inline ? stringifyJson(nested) : format(nested, base)
+        )
+      );
+    }
+    throw new RangeError(`Cannot set ${formatJsonPath(path)}`);
+  };
+
+  const remove = (path: JsonPath): JsonEdit[] => {
+    if (path.length === 0) {
+      throw new RangeError("Cannot remove the root value");
+    }
+    const parent = findNode(tree, path.slice(0, -1));
+    const target = findNode(tree, path);
+    if (!parent || !target) return [];
+
+    const items = parent.children!;
+    const index = items.findIndex(
+      (item) => item === target || item.children?.[1] === target
+    );
+    return commit(removeItem(text, items, index));
+  };
+
+  const insertIntoArray = (
+    path: JsonPath,
+    index: number,
+    value: unknown
+  ): JsonEdit[] => {
+    const array = findNode(tree, path);
+    if (array?.type !== "array") {
+      throw new TypeError(`${formatJsonPath(path)} is not an array`);
+    }
+    const elements = array.children!;
+    if (!Number.isInteger(index) || index < 0 || index > elements.length) {
+      throw new RangeError(
+        `Index ${index} is out of range for ${formatJsonPath(path)}`
+      );
+    }
+    if (index === elements.length) {
+      return commit(
+        append(array, (base, inline) =>
+          inline ? stringifyJson(value) : format(value, base)
+        )
+      );
+    }
+
+    const element = elements[index]!;
+    const lineStart = ownLineStart(text, element.offset);
+    if (lineStart === -1) {
+      return commit([insert(element.offset, `${stringifyJson(value)}, `)]);
+    }
+    const base = lineIndent(text, element.offset);
+    return commit([
+      insert(lineStart, `${base}${format(value, base)},${newline}`),
+    ]);
+  };
+
+  return {
+    get text() {
+      return text;
+    },
+    get tree() {
+      return tree;
+    },
+    setValue,
+    remove,
+    insertIntoArray,
+  };
+}
+
+/**
+ * Apply edits made against the same text; edits at the same offset are
+ * inserted in the order given
+ */
+export function applyEdits(text: string, edits: JsonEdit[]): string {
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.offset - a.edit.offset || b.index - a.index)
+    .map(({ edit }) => edit);
+  for (const { offset, length, content } of sorted) {
+    text = text.slice(0, offset) + content + text.slice(offset + length);
+  }
+  return text;
+}
+
+/**
+ * Edits removing one member or element with its comma, and its whole line
+ * when it stands on a line of its own
+ */
+function removeItem(
+  text: string,
+  items: JsonNode[],
+  index: number
+): JsonEdit[] {
+  const item = items[index]!;
+  const end = item.offset + item.length;
+  const comma = findComma(text, end);
+  const lineStart = ownLineStart(text, item.offset);
+
+  if (comma !== -1) {
+    const lineEnd = lineEndAfter(text, comma + 1);
+    if (lineStart !== -1 && lineEnd !== -1) {
+      return [replace(lineStart, lineEnd, "")];
+    }
+    const next = items[index + 1];
+    return [replace(item.offset, next ? next.offset : comma + 1, "")];
+  }
+
+  const lineEnd = lineEndAfter(text, end);
+  const removal =
+    lineStart !== -1
+      ? replace(lineStart, lineEnd === -1 ? end : lineEnd, "")
+      : replace(item.offset, end, "");
+  const previous = items[index - 1];
+  if (!previous) return [removal];
+
+  // The last item goes, so the comma before it has to go as well
+  const previousComma = findComma(text, previous.offset + previous.length);
+  if (lineStart === -1) {
+    return [replace(previousComma, end, "")];
+  }
+  return [replace(previousComma, previousComma + 1, ""), removal];
+}
+
+function insert(offset: number, content: string): JsonEdit {
+  return { offset, length: 0, content };
+}
+
+function replace(start: number, end: number, content: string): JsonEdit {
+  return { offset: start, length: end - start, content };
+}
+
+/**
+ * Skip whitespace and comments, staying on the current line when `sameLine`
+ * is set
+ */
+function skipGap(text: string, pos: number, sameLine: boolean): number {
+  while (pos < text.length) {
+    const char = text[pos]!;
+    if (char === " " || char === "\t") {
+      pos++;
+    } else if ((char === "\n" || char === "\r") && !sameLine) {
+      pos++;
+    } else if (text.startsWith("//", pos)) {
+      while (pos < text.length && text[pos] !== "\n" && text[pos] !== "\r") {
+        pos++;
+      }
+    } else if (text.startsWith("/*", pos)) {
+      const end = text.indexOf("*/", pos + 2);
+      if (end === -1) return text.length;
+      if (sameLine && /[\n\r]/.test(text.slice(pos, end))) return pos;
+      pos = end + 2;
+    } else {
+      return pos;
+    }
+  }
+  return pos;
+}
+
+/**
+ * Offset of the comma following a value, or -1 if there is none
+ */
+function findComma(text: string, end: number): number {
+  const pos = skipGap(text, end, false);
+  return text[pos] === "," ? pos : -1;
+}
+
+/**
+ * Start of the line holding `offset` if only indentation precedes it there,
+ * otherwise -1
+ */
+function ownLineStart(text: string, offset: number): number {
+  let pos = offset;
+  while (pos > 0 && (text[pos - 1] === " " || text[pos - 1] === "\t")) pos--;
+  return pos === 0 || text[pos - 1] === "\n" || text[pos - 1] === "\r"
+    ? pos
+    : -1;
+}
+
+/**
+ * Offset just past the line break ending the line of `pos` if only
+ * whitespace and comments follow on that line, otherwise -1
+ */
+function lineEndAfter(text: string, pos: number): number {
+  const end = skipGap(text, pos, true);
+  if (text.startsWith("\r\n", end)) return end + 2;
+  if (text[end] === "\n" || text[end] === "\r") return end + 1;
+  return -1;
+}
+
+/**
+ * Indentation of the line holding `offset`
+ */
+function lineIndent(text: string, offset: number): string {
+  let start = offset;
+  while (start > 0 && text[start - 1] !== "\n" && text[start - 1] !== "\r") {
+    start--;
+  }
+  return /^[ \t]*/.exec(text.slice(start, offset))![0];
+}
+
+/**
+ * Indentation unit of a document: the indentation of its first indented
+ * line, or none for a document on a single line
+ */
+function detectIndent(text: string): string {
+  const match = /[\n\r]([ \t]+)\S/.exec(text);
+  if (match) return match[1]!;
+  return /[\n\r]/.test(text.trim()) ? "  " : "";
+}
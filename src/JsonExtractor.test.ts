@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { extractAllJson } from "./JsonExtractor.js";
+import { expectLinearTime } from "./testTiming.js";
+
+describe("extractAllJson", () => {
+  it("should find every value in prose with its span", () => {
+    const text = 'Plan: {"step": 1} then result: [1, 2] done';
+    const found = extractAllJson(text);
+
+    expect(found).toEqual([
+      { value: { step: 1 }, start: 6, end: 17, fenced: false },
+      { value: [1, 2], start: 31, end: 37, fenced: false },
+    ]);
+    expect(text.slice(found[1]!.start, found[1]!.end)).toBe("[1, 2]");
+  });
+
+  it("should return values from several code fences with their language", () => {
+    const text = [
+      "Here is the plan:",
+      "```json",
+      '{"plan": ["search"]}',
+      "```",
+      "And the result:",
+      "```",
+      '{"result": "ok"}',
+      "```",
+    ].join("\n");
+
+    expect(
+      extractAllJson(text).map(({ value, fenced, language }) => ({
+        value,
+        fenced,
+        language,
+      }))
+    ).toEqual([
+      { value: { plan: ["search"] }, fenced: true, language: "json" },
+      { value: { result: "ok" }, fenced: true, language: undefined },
+    ]);
+  });
+
+  it("should parse a whole fence, including scalars and comments", () => {
+    const text = '```jsonc\n// greeting\n"hello"\n```';
+    expect(extractAllJson(text)).toEqual([
+      {
+        value: "hello",
+        start: 9,
+        end: 28,
+        fenced: true,
+        language: "jsonc",
+      },
+    ]);
+  });
+
+  it("should scan fences whose content is not a single value", () => {
+    const text =
+      "```python\nconfig = {'debug': True, 'level': 2}\nrun([1])\n```";
+    expect(extractAllJson(text).map(({ value }) => value)).toEqual([[1]]);
+  });
+
+  it("should not report values nested in a found value", () => {
+    expect(extractAllJson('x {"a": {"b": [1]}} y')).toHaveLength(1);
+  });
+
+  it("should skip brackets that do not start a value", () => {
+    const found = extractAllJson(
+      'Fill in {placeholder} and [TODO], then {"a": 1}'
+    );
+    expect(found.map(({ value }) => value)).toEqual([{ a: 1 }]);
+  });
+
+  it("should scan text full of unmatched brackets in linear time", async () => {
+    await expectLinearTime((size) => {
+      expect(extractAllJson("{".repeat(size))).toEqual([]);
+      expect(extractAllJson(`${"x { y ".repeat(size)}[1]`)).toHaveLength(1);
+    }, 2500);
+  });
+
+  it("should not parse the brackets left open by a failure again", async () => {
+    // Deeper nesting in a longer text, as each retry would read to the end
+    await expectLinearTime((size) => {
+      const text = `${"[".repeat(size / 250)}"${"x".repeat(size)}" oops [2]`;
+      expect(extractAllJson(text)).toHaveLength(1);
+    }, 25_000);
+  });
+
+  it("should find the values inside one that fails", () => {
+    const found = extractAllJson(
+      '{"a": {"b": 1}, "c": [2, {"d": 3}] oops {"e" [4]}'
+    );
+    expect(found.map(({ value }) => value)).toEqual([
+      { b: 1 },
+      [2, { d: 3 }],
+      [4],
+    ]);
+  });
+
+  it("should use the grammar options", () => {
+    expect(extractAllJson("one {a: 1} two")).toEqual([]);
+    expect(
+      extractAllJson("one {a: 1} two", { allowUnquotedKeys: true })
+    ).toEqual([{ value: { a: 1 }, start: 4, end: 10, fenced: false }]);
+  });
+
+  it("should only repair a value cut off at the end of the text", () => {
+    const text = '{"a": [1\n```json\n{"b": 2}\n```\n{"c": "tru';
+    expect(extractAllJson(text, { repairTruncated: true })).toEqual([
+      { value: { b: 2 }, start: 17, end: 25, fenced: true, language: "json" },
+      {
+        value: { c: "tru" },
+        start: 30,
+        end: 40,
+        fenced: false,
+        incompletePaths: [[], ["c"]],
+      },
+    ]);
+  });
+
+  it("should read an unclosed fence to the end of the text", () => {
+    const text = '```json\n{"a": [1, 2\n';
+    expect(extractAllJson(text, { repairTruncated: true })).toEqual([
+      {
+        value: { a: [1, 2] },
+        start: 8,
+        end: 19,
+        fenced: true,
+        language: "json",
+        incompletePaths: [[], ["a"]],
+      },
+    ]);
+  });
+
+  it("should return an empty array when there is no JSON", () => {
+    expect(extractAllJson("No JSON here.")).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  parseLenient,
+  parseLenientAt,
+  type LenientGrammar,
+  type LenientParseOutput,
+  type SourceSpan,
+} from "./LenientParser.js";
+import {
+  asParseError,
+  boundedGrammar,
+  checkLength,
+  resolveGrammar,
+  trimRange,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import { LineIndex } from "./JsonParseError.js";
+import type { JsonPath } from "./JsonPath.js";
+import { findCodeFences, type CodeFence } from "./Markdown.js";
+
+export interface ExtractedJson<T = any> {
+  value: T;
+  /** Offset of the first character of the value in the text */
+  start: number;
+  /** Offset just past the last character of the value */
+  end: number;
+  /** Whether the value was found inside a fenced code block */
+  fenced: boolean;
+  /** Language tag of the enclosing code fence, such as `json`, if it has one */
+  language?: string;
+  /** Paths of the values that were cut off, when `repairTruncated` closed it */
+  incompletePaths?: JsonPath[];
+}
+
+export type JsonExtractOptions = Omit<
+  JsonParseOptions,
+  "schema" | "coerce" | "codeBlock"
+>;
+
+/**
+ * Find every JSON value embedded in a text, in order of appearance.
+ *
+ * The content of each fenced code block is parsed as a whole when possible;
+ * elsewhere, every object or array that parses is collected. Values nested
+ * inside a collected value are not reported separately.
+ * @param text - Text that may contain several JSON values, such as a model response
+ * @param options - Grammar options, as for `parseJson`
+ * @returns The values with their source spans, empty if none were found
+ */
+export function extractAllJson<T = any>(
+  text: string,
+  options: JsonExtractOptions = {}
+): ExtractedJson<T>[] {
+  checkLength(text, options);
+  const grammar = resolveGrammar(options);
+  const found: ExtractedJson<T>[] = [];
+  let proseStart = 0;
+
+  for (const fence of findCodeFences(text)) {
+    const proseGrammar = boundedGrammar(text, fence.start, grammar);
+    scanValues(text, proseStart, fence.start, proseGrammar, found, {
+      fenced: false,
+    });
+    parseFence(text, fence, grammar, found);
+    proseStart = fence.end;
+  }
+  scanValues(text, proseStart, text.length, grammar, found, { fenced: false });
+
+  return found;
+}
+
+type Origin = Pick<ExtractedJson, "fenced" | "language">;
+
+/**
+ * Parse the content of a code fence as one value, falling back to scanning it
+ * for embedded objects and arrays
+ */
+function parseFence<T>(
+  text: string,
+  fence: CodeFence,
+  grammar: LenientGrammar,
+  found: ExtractedJson<T>[]
+): void {
+  const origin: Origin = {
+    fenced: true,
+    ...(fence.language !== undefined && { language: fence.language }),
+  };
+
+  const fenceGrammar = boundedGrammar(text, fence.contentEnd, grammar);
+  const [start, end] = trimRange(text, fence.contentStart, fence.contentEnd);
+  if (start === end) return;
+
+  try {
+    const output = parseLenient(text, fenceGrammar, "extracted", start, end);
+    found.push(toExtracted(output, start, origin));
+  } catch (error) {
+    asParseError(error);
+    scanValues(text, start, end, fenceGrammar, found, origin);
+  }
+}
+
+/**
+ * Collect each object or array between `from` and `to` that parses, resuming
+ * the scan after every value found
+ */
+function scanValues<T>(
+  text: string,
+  from: number,
+  to: number,
+  grammar: LenientGrammar,
+  found: ExtractedJson<T>[],
+  origin: Origin
+): void {
+  const closed: SourceSpan[] = [];
+  const scanGrammar = { ...grammar, closed };
+  const lines = new LineIndex(text);
+  let pos = from;
+
+  while (pos < to) {
+    const start = nextOpeningBracket(text, pos, to);
+    if (start === -1) return;
+
+    closed.length = 0;
+    try {
+      const output = parseLenientAt(
+        text,
+        start,
+        scanGrammar,
+        "extracted",
+        to,
+        lines
+      );
+      found.push(toExtracted(output, start, origin));
+      pos = output.end;
+    } catch (error) {
+      // Values may still be found inside the one that failed: those it read
+      // to the end are parsed again on their own, and the scan resumes where
+      // it failed, since the brackets still open there would fail alike
+      const failed = Math.max(asParseError(error).offset, start + 1);
+      for (const span of outermost(closed, failed)) {
+        try {
+          const output = parseLenientAt(
+            text,
+            span.start,
+            grammar,
+            "extracted",
+            to,
+            lines
+          );
+          found.push(toExtracted(output, span.start, origin));
+        } catch (retryError) {
+          asParseError(retryError);
+        }
+      }
+      pos = failed;
+    }
+  }
+}
+
+/**
+ * The spans before `end` that no other span contains, in order, from spans
+ * listed inner ones first
+ */
+function outermost(spans: SourceSpan[], end: number): SourceSpan[] {
+  const result: SourceSpan[] = [];
+  for (let i = spans.length - 1; i >= 0; i--) {
+    const span = spans[i]!;
+    const last = result[result.length - 1];
+    if (span.end <= end && (last === undefined || span.end <= last.start)) {
+      result.push(span);
+    }
+  }
+  return result.reverse();
+}
+
+/**
+ * Find the next `{` or `[` in a range, or -1 if there is none
+ */
+function nextOpeningBracket(text: string, from: number, to: number): number {
+  for (let i = from; i < to; i++) {
+    if (text[i] === "{" || text[i] === "[") return i;
+  }
+  return -1;
+}
+
+/**
+ * Attach the span and origin to a parsed value
+ */
+function toExtracted<T>(
+  { value, end, incompletePaths }: LenientParseOutput,
+  start: number,
+  origin: Origin
+): ExtractedJson<T> {
+  return {
+    value: value as T,
+    start,
+    end,
+    ...origin,
+    ...(incompletePaths.length > 0 && { incompletePaths }),
+  };
+}
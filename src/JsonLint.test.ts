@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { lintJson } from "./JsonLint.js";
+import { JsonParseError } from "./JsonParseError.js";
+
+describe("lintJson", () => {
+  it("should report nothing for standard JSON", () => {
+    expect(lintJson('  {"a": [1, 2.5e3, "x\\n"]}\n')).toEqual({
+      valid: true,
+      issues: [],
+    });
+  });
+
+  it("should report each non-standard construct with its location", () => {
+    const { valid, issues } = lintJson(`{
+  // name
+  name: 'Alice',
+  "tags": ["a",],
+}`);
+
+    expect(valid).toBe(false);
+    expect(issues).toEqual([
+      {
+        kind: "comment",
+        message: "Comment",
+        offset: 4,
+        line: 2,
+        column: 3,
+        text: "// name",
+      },
+      {
+        kind: "unquoted-key",
+        message: "Unquoted property name",
+        offset: 14,
+        line: 3,
+        column: 3,
+        text: "name",
+      },
+      {
+        kind: "single-quotes",
+        message: "Single-quoted string",
+        offset: 20,
+        line: 3,
+        column: 9,
+        text: "'Alice'",
+      },
+      {
+        kind: "trailing-comma",
+        message: "Trailing comma",
+        offset: 43,
+        line: 4,
+        column: 15,
+        text: ",",
+      },
+      {
+        kind: "trailing-comma",
+        message: "Trailing comma",
+        offset: 45,
+        line: 4,
+        column: 17,
+        text: ",",
+      },
+    ]);
+  });
+
+  it("should report text around an extracted value", () => {
+    const { issues } = lintJson(
+      'Sure! Here it is:\n{"a": 1}\nHope this helps.'
+    );
+    expect(issues.map(({ kind, text }) => [kind, text])).toEqual([
+      ["leading-text", "Sure! Here it is:"],
+      ["trailing-text", "Hope this helps."],
+    ]);
+  });
+
+  it("should report code fences as surrounding text", () => {
+    const { issues } = lintJson('```json\n{"a": 1}\n```');
+    expect(issues.map(({ kind, text }) => [kind, text])).toEqual([
+      ["leading-text", "```json"],
+      ["trailing-text", "```"],
+    ]);
+  });
+
+  it("should report a byte order mark and control characters", () => {
+    const { issues } = lintJson('﻿{"a": "x\ty", "b": NaN}');
+    expect(issues.map(({ kind, offset }) => [kind, offset])).toEqual([
+      ["bom", 0],
+      ["control-character", 9],
+      ["nan", 19],
+    ]);
+  });
+
+  it("should report JSON5 syntax in json5 mode", () => {
+    const { issues } = lintJson("[0x10, .5, 'a\\\nb']", { mode: "json5" });
+    expect(issues.map(({ kind, text }) => [kind, text])).toEqual([
+      ["number-syntax", "0x10"],
+      ["number-syntax", ".5"],
+      ["single-quotes", "'a\\\nb'"],
+      ["escape", "\\\n"],
+    ]);
+  });
+
+  it("should return the parse error when nothing parses", () => {
+    const result = lintJson('{"a": 1,, "b": 2}');
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([]);
+    expect(result.parseError).toBeInstanceOf(JsonParseError);
+  });
+
+  it("should respect the grammar options", () => {
+    expect(lintJson("{a: 1}", { allowUnquotedKeys: false }).parseError).toEqual(
+      expect.objectContaining({ line: 1, column: 2 })
+    );
+  });
+
+  it("should report separators inserted by repairSeparators", () => {
+    const result = lintJson('{"a": 1,, "b" [1 2]}', {
+      repairSeparators: true,
+    });
+    expect(result.valid).toBe(false);
+    expect(
+      result.issues.map(({ message, line, column }) => [message, line, column])
+    ).toEqual([
+      ["Repeated comma", 1, 9],
+      ["Missing colon after property name", 1, 14],
+      ["Missing comma", 1, 17],
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  parseWithFallbacks,
+  type JsonParseOptions,
+  type ParseOutcome,
+} from "./JsonParser.js";
+import { JsonParseError } from "./JsonParseError.js";
+import { buildRepairReport, type JsonRepairKind } from "./JsonRepairReport.js";
+
+/**
+ * Kinds of non-standard input reported by `lintJson`, the same as the kinds
+ * of repair `parseJson` can apply
+ */
+export type JsonLintKind = JsonRepairKind;
+
+export interface JsonLintIssue {
+  kind: JsonLintKind;
+  message: string;
+  /** Offset (UTF-16 code units) of the construct in the content */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** Source text of the construct */
+  text: string;
+}
+
+export interface JsonLintResult {
+  /** True when the content is standard JSON (RFC 8259) with nothing around it */
+  valid: boolean;
+  /** Every non-standard construct found, in source order */
+  issues: JsonLintIssue[];
+  /** Why the content could not be parsed, even leniently */
+  parseError?: JsonParseError;
+}
+
+export type JsonLintOptions = Omit<JsonParseOptions, "schema" | "coerce">;
+
+const MESSAGES: Record<JsonLintKind, string> = {
+  comment: "Comment",
+  "trailing-comma": "Trailing comma",
+  "single-quotes": "Single-quoted string",
+  "unquoted-key": "Unquoted property name",
+  nan: "NaN is not a JSON value",
+  infinity: "Infinity is not a JSON value",
+  "control-character": "Unescaped control character in string",
+  "number-syntax": "Number syntax not allowed in JSON",
+  escape: "Escape sequence not allowed in JSON",
+  whitespace: "Whitespace character not allowed in JSON",
+  "python-literal": "Python literal",
+  tuple: "Python tuple",
+  undefined: "undefined is not a JSON value",
+  "template-literal": "Template string",
+  "number-key": "Number as property name",
+  "computed-key": "Computed property name",
+  "inner-quote": "Unescaped quote inside a string",
+  "missing-comma": "Missing comma",
+  "missing-colon": "Missing colon after property name",
+  "repeated-comma": "Repeated comma",
+  bom: "Byte order mark",
+  "leading-text": "Text before the JSON value",
+  "trailing-text": "Text after the JSON value",
+  rewrite: "Text changed by a repair strategy",
+};
+
+/**
+ * Parse content the way `parseJson` does and report every construct that
+ * standard JSON would reject, such as comments, trailing commas, single
+ * quotes, raw control characters and text around the value.
+ *
+ * Unquoted keys are accepted unless `allowUnquotedKeys` is set to false.
+ * @param content - The string content to check
+ * @param options - Parsing options deciding what is accepted at all
+ * @returns The issues found, and the parse error if the content did not parse
+ */
+export function lintJson(
+  content: string,
+  options: JsonLintOptions = {}
+): JsonLintResult {
+  let outcome: ParseOutcome;
+  try {
+    outcome = parseWithFallbacks(content, {
+      allowUnquotedKeys: true,
+      ...options,
+    });
+  } catch (error) {
+    if (!(error instanceof JsonParseError)) throw error;
+    return { valid: false, issues: [], parseError: error };
+  }
+
+  const issues = buildRepairReport(content, outcome, options).repairs.map(
+    ({ kind, offset, line, column, before }) => ({
+      kind,
+      message: MESSAGES[kind],
+      offset,
+      line,
+      column,
+      text: before,
+    })
+  );
+
+  return { valid: issues.length === 0, issues };
+}
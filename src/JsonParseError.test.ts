@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { JsonParseError } from "./JsonParseError.js";
+
+describe("JsonParseError", () => {
+  it("should compute line and column from the offset", () => {
+    const source = '{\n  "a": 1\n  "b": 2\n}';
+    const error = JsonParseError.at(
+      "Oops",
+      source,
+      source.indexOf('"b"'),
+      "raw"
+    );
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(3);
+    expect(error.message).toBe("Oops at line 3, column 3");
+  });
+
+  it("should count the offset and column in UTF-16 code units", () => {
+    const source = '["😀é", oops]';
+    const error = JsonParseError.at("Oops", source, 8, "raw");
+    expect(source.slice(error.offset)).toBe("oops]");
+    expect(error.column).toBe(9);
+  });
+
+  it("should treat CRLF as a single line break", () => {
+    const error = JsonParseError.at("Oops", "[\r\n\r\n x]", 6, "raw");
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(2);
+  });
+
+  it("should render a caret-annotated excerpt", () => {
+    const source = '{"a": 1,\n "b" 2}';
+    const error = JsonParseError.at(
+      "Expected ':'",
+      source,
+      source.indexOf("2"),
+      "cleaned",
+      "':'"
+    );
+    expect(error.excerpt).toBe('2 |  "b" 2}\n  |      ^');
+    expect(error.expected).toBe("':'");
+    expect(error.stage).toBe("cleaned");
+  });
+
+  it("should clip long lines around the error", () => {
+    const source = `["${"x".repeat(200)}" oops]`;
+    const offset = source.indexOf("oops");
+    const [text, caret] = JsonParseError.at(
+      "Oops",
+      source,
+      offset,
+      "raw"
+    ).excerpt.split("\n") as [string, string];
+    expect(text.startsWith("1 | ...")).toBe(true);
+    expect(text.endsWith("...")).toBe(false);
+    expect(text[caret.indexOf("^")]).toBe("o");
+  });
+
+  it("should clip the end of a long line after the error", () => {
+    const source = `[oops\t${"x".repeat(200)}]\n[1]`;
+    const { excerpt } = JsonParseError.at("Oops", source, 1, "raw");
+    expect(excerpt).toBe(`1 | [oops ${"x".repeat(74)}...\n  |  ^`);
+  });
+
+  it("should be a SyntaxError", () => {
+    const error = JsonParseError.at("Oops", "", 0, "raw");
+    expect(error).toBeInstanceOf(SyntaxError);
+    expect(error.name).toBe("JsonParseError");
+  });
+});
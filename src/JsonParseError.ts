@@ -0,0 +1,174 @@
+import { findLineStarts, position } from "./JsonSourceMap.js";
+
+/**
+ * Which input the failing parse attempt was looking at:
+ * - `raw`: the content exactly as given
+ * - `cleaned`: the content after BOM stripping and trimming
+ * - `extracted`: a JSON candidate found inside surrounding text
+ */
+export type JsonParseStage = "raw" | "cleaned" | "extracted";
+
+/**
+ * Why the input was rejected: `syntax` for malformed input, `no-code-block`
+ * when the `codeBlock` option selects a block that does not exist, the others
+ * for input that parses but breaks one of the safeguard options
+ */
+export type JsonParseErrorCode =
+  | "syntax"
+  | "no-code-block"
+  | "max-length"
+  | "max-depth"
+  | "max-keys"
+  | "max-string-length"
+  | "duplicate-key"
+  | "prototype-key";
+
+export interface JsonParseErrorInfo {
+  code: JsonParseErrorCode;
+  /** What went wrong, without location */
+  reason: string;
+  /** Character offset (UTF-16 code units) into the original input */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number, counted in UTF-16 code units like `offset` */
+  column: number;
+  stage: JsonParseStage;
+  /** Description of the token the parser was expecting, if known */
+  expected?: string;
+  /** The offending line with a caret under the error position */
+  excerpt: string;
+}
+
+const EXCERPT_WIDTH = 80;
+
+/**
+ * Locates offsets in a text, finding its line starts the first time, so a
+ * scan for embedded values that fails many times reads the text only once
+ */
+export class LineIndex {
+  readonly source: string;
+  private lineStarts: number[] | undefined;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  /**
+   * Find the 1-based line and column of an offset
+   */
+  locate(offset: number): { line: number; column: number; lineStart: number } {
+    this.lineStarts ??= findLineStarts(this.source);
+    const { line, column } = position(this.lineStarts, offset);
+    return { line, column, lineStart: offset - column + 1 };
+  }
+}
+
+/**
+ * Syntax error with the location of the failure in the original input
+ */
+export class JsonParseError extends SyntaxError implements JsonParseErrorInfo {
+  readonly code: JsonParseErrorCode;
+  readonly reason: string;
+  readonly offset: number;
+  readonly line: number;
+  readonly column: number;
+  readonly stage: JsonParseStage;
+  readonly expected?: string;
+  readonly excerpt: string;
+
+  constructor(info: JsonParseErrorInfo, message?: string) {
+    super(
+      message ?? `${info.reason} at line ${info.line}, column ${info.column}`
+    );
+    this.name = "JsonParseError";
+    this.code = info.code;
+    this.reason = info.reason;
+    this.offset = info.offset;
+    this.line = info.line;
+    this.column = info.column;
+    this.stage = info.stage;
+    if (info.expected !== undefined) {
+      this.expected = info.expected;
+    }
+    this.excerpt = info.excerpt;
+  }
+
+  /**
+   * Create an error for a position in `source`, or in the text of a line
+   * index, computing line, column and excerpt
+   */
+  static at(
+    reason: string,
+    source: string | LineIndex,
+    offset: number,
+    stage: JsonParseStage,
+    expected?: string,
+    code: JsonParseErrorCode = "syntax"
+  ): JsonParseError {
+    const lines = typeof source === "string" ? new LineIndex(source) : source;
+    const { line, column, lineStart } = lines.locate(offset);
+    return new JsonParseError({
+      code,
+      reason,
+      offset,
+      line,
+      column,
+      stage,
+      ...(expected !== undefined && { expected }),
+      excerpt: formatExcerpt(lines.source, lineStart, line, column),
+    });
+  }
+}
+
+/**
+ * Render the line containing the error with a caret under the column,
+ * clipping long lines to a window around the error
+ */
+function formatExcerpt(
+  source: string,
+  lineStart: number,
+  line: number,
+  column: number
+): string {
+  // The line has no break before the error, and is only read as far as the
+  // window can reach
+  const offset = Math.min(lineStart + column - 1, source.length);
+  const limit = Math.min(source.length, offset + EXCERPT_WIDTH + 1);
+  let lineEnd = Math.max(lineStart, offset - 1);
+  while (
+    lineEnd < limit &&
+    source[lineEnd] !== "\n" &&
+    source[lineEnd] !== "\r"
+  ) {
+    lineEnd++;
+  }
+
+  const length = lineEnd - lineStart;
+  let caretColumn = column - 1;
+  let windowStart = 0;
+  let prefix = "";
+  let suffix = "";
+
+  if (length > EXCERPT_WIDTH) {
+    windowStart = Math.max(
+      0,
+      Math.min(caretColumn - EXCERPT_WIDTH / 2, length - EXCERPT_WIDTH)
+    );
+    prefix = windowStart > 0 ? "..." : "";
+    suffix = windowStart + EXCERPT_WIDTH < length ? "..." : "";
+    caretColumn = caretColumn - windowStart + prefix.length;
+  }
+
+  const windowEnd = Math.min(length, windowStart + EXCERPT_WIDTH);
+  const text =
+    prefix +
+    source
+      .slice(lineStart + windowStart, lineStart + windowEnd)
+      .replace(/\t/g, " ") +
+    suffix;
+
+  const gutter = String(line);
+  const padding = " ".repeat(gutter.length);
+  return `${gutter} | ${text}\n${padding} | ${" ".repeat(caretColumn)}^`;
+}
@@ -1,7 +1,15 @@
-import { describe, it, expect } from "vitest";
-import { parseJson, tryParseJson } from "./JsonParser.js";
-import { readFileSync } from "fs";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+  parseJson,
+  tryParseJson,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import { extractAllJson } from "./JsonExtractor.js";
+import { JsonParseError } from "./JsonParseError.js";
+import { schema, JsonValidationError } from "./Schema.js";
+import { readdirSync, readFileSync } from "fs";
 import { join } from "path";
+import JSON5 from "json5";
 
 describe("JsonParser", () => {
   describe("Standard JSON parsing", () => {
@@ -141,6 +149,40 @@ describe("JsonParser", () => {
     });
   });
 
+  describe("String context", () => {
+    it("should not treat // inside strings as a comment", () => {
+      const result = parseJson(`{
+        'url': 'https://x.com', // homepage
+      }`);
+      expect(result).toEqual({ url: "https://x.com" });
+    });
+
+    it("should not treat /* */ inside strings as a comment", () => {
+      const result = parseJson("{'glob': 'src/*.ts', 'end': '*/',}");
+      expect(result).toEqual({ glob: "src/*.ts", end: "*/" });
+    });
+
+    it("should not remove commas before brackets inside strings", () => {
+      const result = parseJson("{'note': 'a, }', 'list': 'x, ]',}");
+      expect(result).toEqual({ note: "a, }", list: "x, ]" });
+    });
+
+    it("should keep double quotes inside single-quoted strings", () => {
+      const result = parseJson(`{'quote': 'She said "hi"'}`);
+      expect(result).toEqual({ quote: 'She said "hi"' });
+    });
+
+    it("should keep apostrophes inside double-quoted strings", () => {
+      const result = parseJson(`{"text": "it's fine", 'n': 1}`);
+      expect(result).toEqual({ text: "it's fine", n: 1 });
+    });
+
+    it("should not quote key-like text inside strings", () => {
+      const result = parseJson("{a: 'x, b: y'}", { allowUnquotedKeys: true });
+      expect(result).toEqual({ a: "x, b: y" });
+    });
+  });
+
   describe("Whitespace handling", () => {
     it("should handle extra whitespace", () => {
       const result = parseJson(`  {  "name"  :  "Alice"  }  `);
@@ -189,14 +231,25 @@ describe("JsonParser", () => {
       expect(result.negInf).toBe(-Infinity);
     });
 
-    it("should not convert NaN when option is disabled", () => {
-      const result = parseJson('{"value": NaN}', { allowNaN: false });
-      expect(result.value).toBe("NaN");
+    it("should reject NaN when option is disabled", () => {
+      expect(() => parseJson('{"value": NaN}', { allowNaN: false })).toThrow();
     });
 
-    it("should not convert Infinity when option is disabled", () => {
-      const result = parseJson('{"value": Infinity}', { allowInfinity: false });
-      expect(result.value).toBe("Infinity");
+    it("should reject Infinity when option is disabled", () => {
+      expect(() =>
+        parseJson('{"value": Infinity}', { allowInfinity: false })
+      ).toThrow();
+    });
+
+    it("should handle special values in arrays", () => {
+      const result = parseJson("[NaN, Infinity, -Infinity]");
+      expect(result[0]).toBeNaN();
+      expect(result.slice(1)).toEqual([Infinity, -Infinity]);
+    });
+
+    it("should leave special value words inside strings alone", () => {
+      const result = parseJson("{'label': 'NaN', 'note': ': Infinity'}");
+      expect(result).toEqual({ label: "NaN", note: ": Infinity" });
     });
   });
 
@@ -291,6 +344,131 @@ That's all!`);
     });
   });
 
+  describe("Markdown code blocks", () => {
+    it("should prefer a JSON code block over braces in the prose", () => {
+      const result = parseJson(`Replace {placeholder} with your value, e.g. {"name": "example"}:
+\`\`\`json
+{"name": "Alice"}
+\`\`\``);
+      expect(result).toEqual({ name: "Alice" });
+    });
+
+    it("should prefer tagged blocks over untagged and other languages", () => {
+      const result = parseJson(`\`\`\`
+{"untagged": true}
+\`\`\`
+\`\`\`python
+{"python": True}
+\`\`\`
+\`\`\`JSON5
+{"tagged": true}
+\`\`\``);
+      expect(result).toEqual({ tagged: true });
+    });
+
+    it("should use untagged blocks when no block is tagged as JSON", () => {
+      const result = parseJson(`\`\`\`text
+{"text": true}
+\`\`\`
+\`\`\`
+{"untagged": true}
+\`\`\``);
+      expect(result).toEqual({ untagged: true });
+    });
+
+    it("should parse comments in a jsonc block", () => {
+      const result = parseJson(`\`\`\`jsonc
+{
+  // the answer
+  "answer": 42,
+}
+\`\`\``);
+      expect(result).toEqual({ answer: 42 });
+    });
+
+    it("should extract from tilde and indented fences", () => {
+      expect(parseJson('~~~json\n{"tilde": true}\n~~~')).toEqual({
+        tilde: true,
+      });
+      expect(
+        parseJson(
+          '1. Result:\n    ```json\n    {"indented": true}\n    ```\n2. Done'
+        )
+      ).toEqual({ indented: true });
+    });
+
+    it("should keep reading past a shorter closing fence", () => {
+      const result = parseJson(
+        '````json\n{"readme": "use ```js blocks"}\n````'
+      );
+      expect(result).toEqual({ readme: "use ```js blocks" });
+    });
+
+    it("should skip blocks that do not parse", () => {
+      const result = parseJson(`\`\`\`json
+{"broken": 
+\`\`\`
+\`\`\`json
+{"fixed": true}
+\`\`\``);
+      expect(result).toEqual({ fixed: true });
+    });
+
+    describe("codeBlock option", () => {
+      const markdown = `Plan:
+\`\`\`json
+{"step": "plan"}
+\`\`\`
+Result:
+\`\`\`json
+{"step": "result"}
+\`\`\`
+\`\`\`json
+{"step": "summary"}
+\`\`\``;
+
+      it("should select a block by index or the last block", () => {
+        expect(parseJson(markdown, { codeBlock: 1 })).toEqual({
+          step: "result",
+        });
+        expect(parseJson(markdown, { codeBlock: "last" })).toEqual({
+          step: "summary",
+        });
+      });
+
+      it("should fail when the selected block does not exist", () => {
+        const result = tryParseJson(markdown, { codeBlock: 5 });
+        expect(result.parseError).toMatchObject({
+          code: "no-code-block",
+          reason: "No JSON code block at index 5 among 3",
+        });
+        const single = '```json\n{"a": 1}\n```';
+        expect(() => parseJson(single, { codeBlock: 5 })).toThrow(
+          "No JSON code block at index 5 among 1"
+        );
+        expect(
+          tryParseJson('Result: {"a": 1}', { codeBlock: "last" }).parseError
+            ?.code
+        ).toBe("no-code-block");
+      });
+
+      it("should not count negative indexes from the end", () => {
+        expect(() => parseJson(markdown, { codeBlock: -1 })).toThrow(
+          "No JSON code block at index -1 among 3"
+        );
+      });
+
+      it("should fall back to extraction when the selected block does not parse", () => {
+        const result = tryParseJson(
+          '```json\n{"a": 1}\n```\n```json\n{"b": \n```',
+          { codeBlock: "last" }
+        );
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual({ a: 1 });
+      });
+    });
+  });
+
   describe("Complex mixed cases", () => {
     it("should handle JSON with comments, trailing commas, and single quotes", () => {
       const result = parseJson(`{
@@ -489,6 +667,934 @@ That's all!`);
     });
   });
 
+  describe("Truncated output repair", () => {
+    it("should recover the largest valid prefix", () => {
+      const result = tryParseJson(
+        '{"next_action": "write_agents", "agents": [{"name": "A"}, {"name": "B", "descr',
+        { repairTruncated: true }
+      );
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        next_action: "write_agents",
+        agents: [{ name: "A" }, { name: "B" }],
+      });
+      expect(result.repaired).toBe(true);
+      expect(result.incompletePaths).toEqual([[], ["agents"], ["agents", 1]]);
+    });
+
+    it("should repair truncated JSON inside a markdown code block", () => {
+      const result = tryParseJson('Here you go:\n```json\n{"items": [1, 2', {
+        repairTruncated: true,
+      });
+      expect(result.data).toEqual({ items: [1, 2] });
+      expect(result.incompletePaths).toEqual([[], ["items"]]);
+    });
+
+    it("should repair a fixture cut off at the token limit", () => {
+      const filePath = join(process.cwd(), "tests", "test2.json");
+      const fileContent = readFileSync(filePath, "utf-8");
+      const cut = fileContent.slice(0, fileContent.indexOf('"tools"'));
+      const result = tryParseJson(cut, { repairTruncated: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data.completed).toBe(true);
+      expect(result.data.agents).toHaveLength(1);
+      expect(result.data.agents[0].name).toBe("Data Collector");
+      expect(result.data.agents[0].system_prompt).toContain("Role Definition");
+    });
+
+    it("should not mark complete input as repaired", () => {
+      const result = tryParseJson("{'a': 1}", { repairTruncated: true });
+      expect(result.repaired).toBeUndefined();
+      expect(result.incompletePaths).toBeUndefined();
+    });
+
+    it("should leave truncated input as an error by default", () => {
+      expect(tryParseJson('{"a": [1, 2').success).toBe(false);
+    });
+  });
+
+  describe("Schema validation", () => {
+    const agentsSchema = schema.object({
+      next_action: schema.string(),
+      completed: schema.boolean(),
+      agents: schema.array(
+        schema.object({
+          name: schema.string(),
+          description: schema.string(),
+          system_prompt: schema.string(),
+        })
+      ),
+    });
+
+    it("should return typed data that matches the schema", () => {
+      const filePath = join(process.cwd(), "tests", "test2.json");
+      const fileContent = readFileSync(filePath, "utf-8");
+      const result = parseJson(fileContent, { schema: agentsSchema });
+
+      expectTypeOf(result.agents[0]!.system_prompt).toEqualTypeOf<string>();
+      expect(result.agents).toHaveLength(3);
+    });
+
+    it("should throw JsonValidationError for shape failures", () => {
+      expect(() =>
+        parseJson("{'next_action': 'x', 'completed': true, 'agents': [{}]}", {
+          schema: agentsSchema,
+        })
+      ).toThrow(JsonValidationError);
+    });
+
+    it("should report parse and shape failures through tryParseJson", () => {
+      const shape = tryParseJson(
+        '{"next_action": 1, "completed": true, "agents": []}',
+        { schema: agentsSchema }
+      );
+      expect(shape.success).toBe(false);
+      expect(shape.error).toBe(
+        "Validation failed: next_action: Expected string, received number"
+      );
+      expect(shape.issues).toEqual([
+        { path: ["next_action"], message: "Expected string, received number" },
+      ]);
+      expect(shape.parseError).toBeUndefined();
+
+      const syntax = tryParseJson("{", { schema: agentsSchema });
+      expect(syntax.success).toBe(false);
+      expect(syntax.parseError).toBeInstanceOf(JsonParseError);
+      expect(syntax.issues).toBeUndefined();
+    });
+
+    it("should validate the repaired value of truncated output", () => {
+      const result = tryParseJson(
+        '{"next_action": "write_agents", "completed": true, "agents": [{"name": "A", "desc',
+        { schema: agentsSchema, repairTruncated: true }
+      );
+      expect(result.success).toBe(false);
+      expect(result.repaired).toBe(true);
+      expect(result.issues?.map((issue) => issue.path)).toEqual([
+        ["agents", 0, "description"],
+        ["agents", 0, "system_prompt"],
+      ]);
+    });
+
+    it("should use the output of a Standard Schema validator", () => {
+      const upperCase = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "test",
+          validate: (value: unknown) => ({
+            value: String(value).toUpperCase(),
+          }),
+          types: undefined as unknown as { input: unknown; output: string },
+        },
+      };
+      const result = tryParseJson("'abc'", { schema: upperCase });
+      expectTypeOf(result.data).toEqualTypeOf<string | undefined>();
+      expect(result.data).toBe("ABC");
+    });
+  });
+
+  describe("Schema coercion", () => {
+    const workflowSchema = schema.object({
+      completed: schema.boolean(),
+      count: schema.number(),
+      agents: schema.array(
+        schema.object({
+          name: schema.string(),
+          agent_id: schema.withDefault(schema.array(schema.string()), []),
+        })
+      ),
+    });
+
+    it("should coerce near-miss values and report them", () => {
+      const result = tryParseJson(
+        `{"completed": "true", "count": "3", "agents": {"name": "A", "agent_id": null}}`,
+        { schema: workflowSchema, coerce: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        completed: true,
+        count: 3,
+        agents: [{ name: "A", agent_id: [] }],
+      });
+      expect(result.coercions?.map(({ path, kind }) => [path, kind])).toEqual([
+        [["completed"], "boolean"],
+        [["count"], "number"],
+        [["agents"], "wrap-array"],
+        [["agents", 0, "agent_id"], "null-to-missing"],
+        [["agents", 0, "agent_id"], "default"],
+      ]);
+    });
+
+    it("should apply coercion in parseJson", () => {
+      const result = parseJson(
+        "{completed: 'false', count: 0, agents: []}",
+        { schema: workflowSchema, coerce: true, allowUnquotedKeys: true }
+      );
+      expect(result.completed).toBe(false);
+    });
+
+    it("should leave values alone unless coercion is enabled", () => {
+      const result = tryParseJson(
+        '{"completed": "true", "count": 3, "agents": []}',
+        { schema: workflowSchema }
+      );
+      expect(result.success).toBe(false);
+      expect(result.coercions).toBeUndefined();
+    });
+  });
+
+  describe("Error details", () => {
+    it("should throw a JsonParseError with the failure location", () => {
+      const content = '{\n  "name": "Alice"\n  "age": 30\n}';
+      expect(() => parseJson(content)).toThrow(
+        expect.objectContaining({
+          name: "JsonParseError",
+          code: "syntax",
+          line: 3,
+          column: 3,
+          offset: content.indexOf('"age"'),
+          stage: "cleaned",
+          expected: "',' or '}' after property value",
+        })
+      );
+    });
+
+    it("should report offsets in the original input", () => {
+      const content = '\ufeff  \n  {"a": }';
+      const result = tryParseJson(content);
+      expect(result.parseError?.offset).toBe(content.indexOf("}"));
+      expect(result.parseError?.line).toBe(2);
+    });
+
+    it("should report the extracted candidate when it gets further", () => {
+      const content = 'Here you go: {"a": 1, "b": ?} thanks';
+      const result = tryParseJson(content);
+      expect(result.parseError).toBeInstanceOf(JsonParseError);
+      expect(result.parseError?.stage).toBe("extracted");
+      expect(result.parseError?.offset).toBe(content.indexOf("?"));
+      expect(result.parseError?.excerpt).toBe(
+        `1 | ${content}\n  | ${" ".repeat(content.indexOf("?"))}^`
+      );
+    });
+
+    it("should keep the error message for tryParseJson", () => {
+      const result = tryParseJson("[1, 2");
+      expect(result.error).toBe(result.parseError?.message);
+      expect(result.error).toContain("line 1, column 6");
+    });
+
+    it("should not set parseError on success", () => {
+      expect(tryParseJson("[1]")).not.toHaveProperty("parseError");
+    });
+  });
+
+  describe("Big numbers and decimals", () => {
+    it("should return unsafe integers as bigint", () => {
+      const result = parseJson(
+        '{"id": 12345678901234567890, "neg": -9007199254740993, "n": 42, "f": 1.5, "e": 1e30}',
+        { bigint: true }
+      );
+      expect(result).toEqual({
+        id: 12345678901234567890n,
+        neg: -9007199254740993n,
+        n: 42,
+        f: 1.5,
+        e: 1e30,
+      });
+    });
+
+    it("should keep big integers exact on every lenient path", () => {
+      const id = "98765432109876543210";
+      const expected = { id: 98765432109876543210n };
+      const inputs = [
+        `{"id": ${id}}`,
+        `{"id": ${id},} // trailing comma`,
+        `Here is the record: {"id": ${id}} as requested`,
+        `\`\`\`json\n{"id": ${id}}\n\`\`\``,
+        `{"id": ${id}, "tags": ["a`,
+      ];
+      for (const input of inputs) {
+        expect(
+          parseJson(input, { bigint: true, repairTruncated: true })
+        ).toMatchObject(expected);
+      }
+    });
+
+    it("should convert hexadecimal integers in json5 mode", () => {
+      expect(
+        parseJson("[0xFFFFFFFFFFFFFFFFF, -0x20000000000001]", {
+          mode: "json5",
+          bigint: true,
+        })
+      ).toEqual([0xfffffffffffffffffn, -0x20000000000001n]);
+    });
+
+    it("should pass the source text of every number to a factory", () => {
+      const sources: string[] = [];
+      const result = parseJson(
+        '{"price": 0.1000, "qty": 3, "x": [NaN, -Infinity]}',
+        {
+          numberFactory: (source, value) => {
+            sources.push(source);
+            return source.includes(".") ? source : value;
+          },
+        }
+      );
+
+      expect(result).toEqual({ price: "0.1000", qty: 3, x: [NaN, -Infinity] });
+      expect(sources).toEqual(["0.1000", "3", "NaN", "-Infinity"]);
+    });
+
+    it("should prefer the factory over bigint", () => {
+      expect(
+        parseJson("[12345678901234567890]", {
+          bigint: true,
+          numberFactory: (source) => `#${source}`,
+        })
+      ).toEqual(["#12345678901234567890"]);
+    });
+
+    it("should leave numbers alone by default", () => {
+      expect(parseJson("[12345678901234567890]")).toEqual([
+        12345678901234567000,
+      ]);
+    });
+  });
+
+  describe("Safeguards", () => {
+    const codeOf = (content: string, options: JsonParseOptions) =>
+      tryParseJson(content, options).parseError?.code;
+
+    it("should reject content longer than maxLength before parsing", () => {
+      const result = tryParseJson('{"a": "0123456789"}', { maxLength: 10 });
+      expect(result.parseError).toMatchObject({
+        code: "max-length",
+        offset: 10,
+        stage: "raw",
+      });
+      expect(parseJson("[1]", { maxLength: 3 })).toEqual([1]);
+    });
+
+    it("should limit the nesting depth", () => {
+      expect(parseJson('{"a": [1]}', { maxDepth: 2 })).toEqual({ a: [1] });
+
+      const content = '{"a": [{"b": 1}]}';
+      const result = tryParseJson(content, { maxDepth: 2 });
+      expect(result.parseError).toMatchObject({
+        code: "max-depth",
+        offset: content.indexOf('{"b"'),
+      });
+    });
+
+    it("should not fall back to a shallower value inside the text", () => {
+      expect(codeOf('[[{"a": 1}]]', { maxDepth: 1 })).toBe("max-depth");
+    });
+
+    it("should reject deep nesting instead of overflowing the stack", () => {
+      const content = "[".repeat(100_000);
+      expect(codeOf(content, {})).toBe("max-depth");
+      expect(codeOf(content, { maxDepth: Infinity })).toBe("max-depth");
+      expect(() => parseJson(content)).toThrow(JsonParseError);
+      expect(() => extractAllJson(content)).toThrow(
+        expect.objectContaining({ code: "max-depth" })
+      );
+      const deepest = `${"[".repeat(999)}[/* 1000 */]${"]".repeat(999)}`;
+      expect(parseJson(deepest, { mode: "json5" })).toHaveLength(1);
+    });
+
+    it("should apply the nesting limit when building a source map", () => {
+      const nested = (depth: number) =>
+        `${"[".repeat(depth)}${"]".repeat(depth)}`;
+      const { sourceMap } = tryParseJson(nested(1000), { sourceMap: true });
+      expect(sourceMap?.size).toBe(1000);
+      for (const maxDepth of [undefined, Infinity]) {
+        const result = tryParseJson(nested(100_000), {
+          sourceMap: true,
+          ...(maxDepth !== undefined && { maxDepth }),
+        });
+        expect(result.parseError?.code).toBe("max-depth");
+      }
+    });
+
+    it("should limit the members of each object", () => {
+      expect(codeOf('{"a": 1, "b": 2, "c": 3}', { maxKeys: 2 })).toBe(
+        "max-keys"
+      );
+      expect(
+        parseJson('{"a": {"x": 1, "y": 2}, "b": 2}', { maxKeys: 2 })
+      ).toEqual({ a: { x: 1, y: 2 }, b: 2 });
+    });
+
+    it("should limit the length of strings and keys", () => {
+      expect(codeOf('{"a": "abcdef"}', { maxStringLength: 5 })).toBe(
+        "max-string-length"
+      );
+      expect(codeOf('{"abcdef": 1}', { maxStringLength: 5 })).toBe(
+        "max-string-length"
+      );
+      expect(parseJson('{"a": "abcde"}', { maxStringLength: 5 })).toEqual({
+        a: "abcde",
+      });
+    });
+
+    it("should apply the duplicate key policy", () => {
+      const content = '{"a": 1, "b": 2, "a": 3}';
+      expect(parseJson(content)).toEqual({ a: 3, b: 2 });
+      expect(parseJson(content, { duplicateKeys: "last" })).toEqual({
+        a: 3,
+        b: 2,
+      });
+      expect(parseJson(content, { duplicateKeys: "first" })).toEqual({
+        a: 1,
+        b: 2,
+      });
+
+      const result = tryParseJson(content, { duplicateKeys: "error" });
+      expect(result.parseError).toMatchObject({
+        code: "duplicate-key",
+        offset: content.lastIndexOf('"a"'),
+        reason: 'Duplicate property name "a"',
+      });
+    });
+
+    it("should never assign to the prototype", () => {
+      const result = parseJson('{"__proto__": {"polluted": true}}');
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(result.polluted).toBeUndefined();
+      expect(Object.keys(result)).toEqual(["__proto__"]);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it("should drop or reject __proto__ and constructor keys", () => {
+      const content =
+        "{'__proto__': {'polluted': true}, 'constructor': {'prototype': {}}, 'ok': 1}";
+      expect(parseJson(content, { prototypeKeys: "drop" })).toEqual({ ok: 1 });
+      expect(codeOf(content, { prototypeKeys: "error" })).toBe("prototype-key");
+      expect(codeOf('{"constructor": 1}', { prototypeKeys: "error" })).toBe(
+        "prototype-key"
+      );
+    });
+
+    it("should apply the safeguards to extractAllJson", () => {
+      expect(() =>
+        extractAllJson('Here: {"a": 1, "a": 2}', { duplicateKeys: "error" })
+      ).toThrow(expect.objectContaining({ code: "duplicate-key" }));
+    });
+  });
+
+  describe("Strict mode", () => {
+    const strict = { mode: "strict" } as const;
+
+    it("should parse standard JSON", () => {
+      expect(parseJson(' {"a": [1, "x\\n", null]}\n', strict)).toEqual({
+        a: [1, "x\n", null],
+      });
+    });
+
+    it.each([
+      ["trailing comma", '{"a": [1, 2,]}', 1, 13],
+      ["comment", '{"a": 1 // note\n}', 1, 9],
+      ["single quotes", "['a']", 1, 2],
+      ["unquoted key", "{a: 1}", 1, 2],
+      ["NaN", "[NaN]", 1, 2],
+      ["control character", '["a\tb"]', 1, 4],
+      ["leading text", 'Result: {"a": 1}', 1, 1],
+      ["code fence", '```json\n{"a": 1}\n```', 1, 1],
+      ["byte order mark", '\uFEFF{"a": 1}', 1, 1],
+    ])("should reject a %s at its location", (_, text, line, column) => {
+      let error: unknown;
+      try {
+        parseJson(text, strict);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(JsonParseError);
+      expect(error).toMatchObject({ line, column, stage: "raw" });
+      expect((error as Error).message).not.toContain("Failed to parse JSON");
+    });
+
+    it("should let explicit options relax the preset", () => {
+      expect(
+        parseJson('\uFEFF{"a": 1 /* ok */}', {
+          ...strict,
+          stripBOM: true,
+          allowComments: true,
+        })
+      ).toEqual({ a: 1 });
+    });
+  });
+
+  describe("JSON5 mode", () => {
+    const json5 = { mode: "json5" } as const;
+
+    it("should parse the JSON5 README example", () => {
+      const filePath = join(
+        process.cwd(),
+        "tests",
+        "json5",
+        "misc",
+        "readme-example.json5"
+      );
+      const result = parseJson(readFileSync(filePath, "utf-8"), json5);
+      expect(result).toEqual({
+        foo: "bar",
+        while: true,
+        this: "is a multi-line string",
+        here: "is another",
+        hex: 0xdeadbeef,
+        half: 0.5,
+        delta: 10,
+        to: Infinity,
+        finally: "a trailing comma",
+        oh: ["we shouldn't forget", "arrays can have", "trailing commas too"],
+      });
+    });
+
+    it.each([
+      ["0x1F", 31],
+      ["-0xff", -255],
+      [".5", 0.5],
+      ["5.", 5],
+      ["+1.5e2", 150],
+      ["-.5", -0.5],
+      ["+Infinity", Infinity],
+    ])("should parse the number %s", (text, value) => {
+      expect(parseJson(`[${text}]`, json5)).toEqual([value]);
+    });
+
+    it("should parse signed NaN", () => {
+      expect(parseJson("[-NaN, +NaN]", json5)).toEqual([NaN, NaN]);
+    });
+
+    it("should decode every JavaScript escape", () => {
+      expect(parseJson(String.raw`'\v\0\x41\a\'\"\u00e9'`, json5)).toBe(
+        "\v\0Aa'\"é"
+      );
+    });
+
+    it("should reject octal escapes and raw line breaks in strings", () => {
+      expect(() => parseJson(String.raw`"\1"`, json5)).toThrow(
+        JsonParseError
+      );
+      expect(() => parseJson(String.raw`"\01"`, json5)).toThrow(
+        JsonParseError
+      );
+      expect(() => parseJson('"a\nb"', json5)).toThrow(JsonParseError);
+      expect(parseJson('"a\tb"', json5)).toBe("a\tb");
+    });
+
+    it("should accept Unicode identifiers as keys", () => {
+      const result = parseJson(
+        String.raw`{ ümlåut: 1, 你好: 2, \u0061b: 3, a\u200cb: 4 }`,
+        json5
+      );
+      expect(result).toEqual({ ümlåut: 1, 你好: 2, ab: 3, "a\u200cb": 4 });
+      expect(() => parseJson(String.raw`{ \u002d: 1 }`, json5)).toThrow(
+        "Invalid escape in property name"
+      );
+    });
+
+    it("should accept Unicode whitespace between tokens", () => {
+      const text = '\ufeff{\u00a0"a":\u2003true,\u2028"b":\vfalse\u2029}';
+      expect(parseJson(text, json5)).toEqual({ a: true, b: false });
+    });
+
+    it("should let explicit options override the preset", () => {
+      expect(() =>
+        parseJson("{a: 1}", { ...json5, allowUnquotedKeys: false })
+      ).toThrow(JsonParseError);
+    });
+
+    it("should keep the JSON5 extensions out of the default mode", () => {
+      expect(() => parseJson("0x10")).toThrow(JsonParseError);
+      expect(() => parseJson("['a\\\nb']")).toThrow(JsonParseError);
+    });
+
+    describe("JSON5 test corpus", () => {
+      const corpus = join(process.cwd(), "tests", "json5");
+      const files = readdirSync(corpus, { recursive: true, encoding: "utf-8" })
+        .filter((file) => /\.(json5?|js|txt)$/.test(file))
+        .sort();
+
+      it.each(files.filter((file) => file.endsWith(".json")))(
+        "should parse %s like JSON.parse",
+        (file) => {
+          const text = readFileSync(join(corpus, file), "utf-8");
+          expect(parseJson(text, json5)).toEqual(JSON.parse(text));
+        }
+      );
+
+      it.each(files.filter((file) => file.endsWith(".json5")))(
+        "should parse %s like the reference JSON5.parse",
+        (file) => {
+          const text = readFileSync(join(corpus, file), "utf-8");
+          expect(parseJson(text, json5)).toEqual(JSON5.parse(text));
+        }
+      );
+
+      it.each(files.filter((file) => /\.(js|txt)$/.test(file)))(
+        "should reject %s",
+        (file) => {
+          const text = readFileSync(join(corpus, file), "utf-8");
+          expect(() => JSON5.parse(text)).toThrow();
+          expect(() => parseJson(text, json5)).toThrow(JsonParseError);
+        }
+      );
+    });
+  });
+
+  describe("Python dialect", () => {
+    const python = { dialect: "python" } as const;
+
+    it("should parse repr output", () => {
+      const text = `{'ok': True, 'v': None, 'off': False, 'tags': ('a', 'b'), 'one': (1,), 'empty': ()}`;
+      expect(parseJson(text, python)).toEqual({
+        ok: true,
+        v: null,
+        off: false,
+        tags: ["a", "b"],
+        one: [1],
+        empty: [],
+      });
+    });
+
+    it("should handle the quotes repr chooses", () => {
+      const text = String.raw`['it\'s', "it's", 'say "hi"', '\\d']`;
+      expect(parseJson(text, python)).toEqual([
+        "it's",
+        "it's",
+        'say "hi"',
+        "\\d",
+      ]);
+    });
+
+    it("should decode Python escapes and special floats", () => {
+      expect(parseJson(String.raw`'\xe9\U0001F600\n'`, python)).toBe("é😀\n");
+      expect(parseJson("[nan, inf, -inf]", python)).toEqual([
+        NaN,
+        Infinity,
+        -Infinity,
+      ]);
+    });
+
+    it("should write number and constant keys as json.dumps does", () => {
+      expect(
+        parseJson("{1: 'a', -2.50: 'b', True: 1, None: 2}", python)
+      ).toEqual({ "1": "a", "-2.5": "b", true: 1, null: 2 });
+    });
+
+    it("should leave Python words inside strings alone", () => {
+      expect(parseJson(`{'a': 'None', "b": "(True)"}`, python)).toEqual({
+        a: "None",
+        b: "(True)",
+      });
+    });
+
+    it("should report each conversion", () => {
+      const result = tryParseJson("[True, (1,)]", { ...python, report: true });
+      expect(
+        result.report?.repairs.map(({ kind, before, after, strategy }) => [
+          kind,
+          before,
+          after,
+          strategy,
+        ])
+      ).toEqual([
+        ["python-literal", "True", "true", "python"],
+        ["tuple", "(", "[", "python"],
+        ["trailing-comma", ",", "", "trailing-commas"],
+        ["tuple", ")", "]", "python"],
+      ]);
+    });
+
+    it("should repair truncated repr output", () => {
+      expect(
+        tryParseJson("{'a': (1, 2", { ...python, repairTruncated: true })
+      ).toMatchObject({ success: true, data: { a: [1, 2] } });
+      expect(
+        parseJson("[True, Non", { ...python, repairTruncated: true })
+      ).toEqual([true]);
+    });
+
+    it("should keep Python literals out of the default dialect", () => {
+      expect(() => parseJson("[True]")).toThrow(JsonParseError);
+      expect(() => parseJson("(1, 2)")).toThrow(JsonParseError);
+    });
+  });
+
+  describe("JavaScript dialect", () => {
+    const javascript = { dialect: "javascript" } as const;
+
+    it("should parse object literals", () => {
+      const text = `{
+        name: 'agent', // inline
+        tags: ['a', "b",],
+        ["computed key"]: 1,
+        [\`template key\`]: 2,
+        3: 'three',
+        0x10: 'hex',
+      }`;
+      expect(parseJson(text, javascript)).toEqual({
+        name: "agent",
+        tags: ["a", "b"],
+        "computed key": 1,
+        "template key": 2,
+        "3": "three",
+        "16": "hex",
+      });
+    });
+
+    it("should treat undefined as JSON.stringify does", () => {
+      expect(
+        parseJson("{a: undefined, b: [undefined, 1]}", javascript)
+      ).toEqual({ b: [null, 1] });
+      expect(parseJson("undefined", javascript)).toBeNull();
+    });
+
+    it("should read template strings", () => {
+      expect(
+        parseJson("{prompt: `Line one\nSay \"hi\", it's \\` $5`}", javascript)
+      ).toEqual({ prompt: "Line one\nSay \"hi\", it's ` $5" });
+    });
+
+    it("should reject template substitutions and computed expressions", () => {
+      expect(() => parseJson("{a: `${b}`}", javascript)).toThrow(
+        "Template literal substitutions are not supported"
+      );
+      expect(() => parseJson("{[key]: 1}", javascript)).toThrow(
+        JsonParseError
+      );
+    });
+
+    it("should report each conversion", () => {
+      const result = tryParseJson("{a: undefined, [`b`]: `c`}", {
+        ...javascript,
+        report: true,
+      });
+      expect(
+        result.report?.repairs.map(({ kind, after, strategy }) => [
+          kind,
+          after,
+          strategy,
+        ])
+      ).toEqual([
+        ["unquoted-key", '"a"', "javascript"],
+        ["undefined", "", "javascript"],
+        ["computed-key", '"b"', "javascript"],
+        ["template-literal", '"b"', "javascript"],
+        ["template-literal", '"c"', "javascript"],
+      ]);
+    });
+  });
+
+  describe("Inner quote recovery", () => {
+    const repairQuotes = { repairQuotes: true } as const;
+
+    it("should keep unescaped quotes inside a string value", () => {
+      const result = tryParseJson(
+        '{"description": "He said "hello" to me", "ok": true}',
+        { ...repairQuotes, report: true }
+      );
+      expect(result.data).toEqual({
+        description: 'He said "hello" to me',
+        ok: true,
+      });
+      expect(
+        result.report?.repairs.map(({ kind, offset, after, strategy }) => [
+          kind,
+          offset,
+          after,
+          strategy,
+        ])
+      ).toEqual([
+        ["inner-quote", 25, '\\"', "inner-quotes"],
+        ["inner-quote", 31, '\\"', "inner-quotes"],
+      ]);
+    });
+
+    it("should only end a string at a comma that a member follows", () => {
+      expect(
+        parseJson('{"a": "He said "hi", then left", "b": [1, "x "y", 2]}', {
+          ...repairQuotes,
+        })
+      ).toEqual({ a: 'He said "hi", then left', b: [1, 'x "y', 2] });
+      expect(
+        parseJson('["quote "here",\n  "next", true, null]', repairQuotes)
+      ).toEqual(['quote "here', "next", true, null]);
+    });
+
+    it("should not drop the members after a quote misread as closing", () => {
+      const text = '{"a": "use "}" here", "b": 2}';
+      expect(parseJson(text, repairQuotes)).toEqual({ a: 'use "}" here', b: 2 });
+      const result = tryParseJson(`Sure: ${text}`, {
+        ...repairQuotes,
+        report: true,
+      });
+      expect(result.data).toEqual({ a: 'use "}" here', b: 2 });
+      expect(result.report?.discardedTrailingText).toBe(false);
+      expect(
+        parseJson('{"a": "x", "b": 2} Hope this "helps"!', repairQuotes)
+      ).toEqual({ a: "x", b: 2 });
+    });
+
+    it("should keep quoted items listed inside a string together", () => {
+      expect(
+        parseJson('{"s": "say "a", "b" now", "t": 1}', repairQuotes)
+      ).toEqual({ s: 'say "a", "b" now', t: 1 });
+      expect(parseJson('["pick "x", "y" or "z"", 2]', repairQuotes)).toEqual([
+        'pick "x", "y" or "z"',
+        2,
+      ]);
+    });
+
+    it("should fail rather than guess between quoted items", () => {
+      expect(
+        tryParseJson('{"s": "say "a", "b", "t": 1}', repairQuotes).success
+      ).toBe(false);
+    });
+
+    it("should end a key only at a colon", () => {
+      expect(parseJson('{"say "hi"": "a "b" c"}', repairQuotes)).toEqual({
+        'say "hi"': 'a "b" c',
+      });
+    });
+
+    it("should recover quotes in single-quoted strings", () => {
+      expect(parseJson("{'a': 'it's fine'}", repairQuotes)).toEqual({
+        a: "it's fine",
+      });
+    });
+
+    it("should keep unescaped backslashes", () => {
+      expect(
+        parseJson(String.raw`{"path": "C:\Users\me", "re": "\d+"}`, repairQuotes)
+      ).toEqual({ path: "C:\\Users\\me", re: "\\d+" });
+    });
+
+    it("should leave standard JSON untouched", () => {
+      const text = '{"a": "x", "b": ["y", "z"], "c": "\\"quoted\\""}';
+      const result = tryParseJson(text, { ...repairQuotes, report: true });
+      expect(result.data).toEqual(JSON.parse(text));
+      expect(result.report?.repairs).toEqual([]);
+    });
+
+    it("should stay off by default", () => {
+      expect(() => parseJson('{"a": "He said "hi" to me"}')).toThrow(
+        JsonParseError
+      );
+    });
+
+    it("should read every fixture's system prompts", () => {
+      for (const file of readdirSync(join(process.cwd(), "tests"))) {
+        if (!file.endsWith(".json")) continue;
+        const text = readFileSync(join(process.cwd(), "tests", file), "utf-8");
+        const result = tryParseJson(text, repairQuotes);
+        expect(result.success, file).toBe(true);
+        for (const agent of result.data.agents ?? []) {
+          expect(agent.system_prompt, file).toContain("## Role Definition");
+        }
+      }
+      const test5 = parseJson(
+        readFileSync(join(process.cwd(), "tests", "test5.json"), "utf-8"),
+        repairQuotes
+      );
+      expect(test5.agents[1].system_prompt).toContain(
+        'a generic "Business Cycle Indicator data available but could not be formatted" message'
+      );
+    });
+  });
+
+  describe("Missing separator recovery", () => {
+    const repairSeparators = { repairSeparators: true } as const;
+
+    const repairsOf = (content: string, options: JsonParseOptions = {}) =>
+      tryParseJson(content, {
+        ...repairSeparators,
+        ...options,
+        report: true,
+      }).report?.repairs.map(({ kind, line, column, before, after }) => [
+        kind,
+        line,
+        column,
+        before,
+        after,
+      ]);
+
+    it("should insert commas between members and items", () => {
+      expect(parseJson('{"a": 1 "b": 2}', repairSeparators)).toEqual({
+        a: 1,
+        b: 2,
+      });
+      expect(
+        parseJson('[{"a": 1} {"b": 2}\n{"c": [1 2]}]', repairSeparators)
+      ).toEqual([{ a: 1 }, { b: 2 }, { c: [1, 2] }]);
+    });
+
+    it("should insert colons after keys", () => {
+      expect(parseJson('{"key" "value", "n" 3}', repairSeparators)).toEqual({
+        key: "value",
+        n: 3,
+      });
+    });
+
+    it("should collapse repeated commas", () => {
+      expect(
+        parseJson('{"name": "Alice",, "age": 30}', repairSeparators)
+      ).toEqual({ name: "Alice", age: 30 });
+      expect(parseJson("[1, , 2,,]", repairSeparators)).toEqual([1, 2]);
+    });
+
+    it("should report each insertion where it belongs", () => {
+      expect(repairsOf('{\n  "a": 1\n  "b" [true false],,\n  "c": 3\n}')).toEqual(
+        [
+          ["missing-comma", 2, 9, "", ","],
+          ["missing-colon", 3, 6, "", ":"],
+          ["missing-comma", 3, 12, "", ","],
+          ["repeated-comma", 3, 20, ",", ""],
+        ]
+      );
+      expect(
+        tryParseJson('{"a": 1 "b": 2}', { ...repairSeparators, report: true })
+          .report?.repairs[0]?.strategy
+      ).toBe("separators");
+    });
+
+    it("should work with extraction, truncation and quote recovery", () => {
+      expect(
+        parseJson('Result: {"a": 1 "b": 2} as asked', repairSeparators)
+      ).toEqual({ a: 1, b: 2 });
+      expect(
+        parseJson('[{"a": 1} {"b": [1 2', {
+          ...repairSeparators,
+          repairTruncated: true,
+        })
+      ).toEqual([{ a: 1 }, { b: [1, 2] }]);
+      expect(
+        parseJson('{"a": "say "hi"" "b": "y"}', {
+          ...repairSeparators,
+          repairQuotes: true,
+        })
+      ).toEqual({ a: 'say "hi"', b: "y" });
+    });
+
+    it("should still reject separators that do not fit", () => {
+      expect(() => parseJson('{"a": 1 ]', repairSeparators)).toThrow(
+        "Expected ',' or '}' after property value"
+      );
+      expect(() => parseJson('{"a": 1 "b"}', repairSeparators)).toThrow(
+        JsonParseError
+      );
+    });
+
+    it("should stay off by default", () => {
+      expect(() => parseJson('{"a": 1 "b": 2}')).toThrow(JsonParseError);
+      expect(() => parseJson('{"key" "value"}')).toThrow(JsonParseError);
+    });
+  });
+
   describe("Options configuration", () => {
     it("should respect allowTrailingCommas option", () => {
       expect(() =>
@@ -1,10 +1,91 @@
+import {
+  parseLenient,
+  parseLenientAt,
+  type LenientGrammar,
+  type LenientParseOutput,
+  type SourceSpan,
+  type SyntaxExtension,
+} from "./LenientParser.js";
+import { JsonParseError } from "./JsonParseError.js";
+import type { JsonPath } from "./JsonPath.js";
+import {
+  resolveStrategies,
+  rewriteContent,
+  strategyWithFeature,
+  type JsonCandidate,
+  type JsonGrammarFeature,
+  type JsonRepairStrategy,
+  type RewriteEdit,
+  type RewrittenContent,
+} from "./JsonStrategy.js";
+import {
+  transformHooks,
+  type JsonReviver,
+  type JsonTransform,
+} from "./JsonTransform.js";
+import { buildSourceMap, type JsonSourceMap } from "./JsonSourceMap.js";
+import { collectComments, type JsonComments } from "./JsonComments.js";
+import { compileSelectors, groupSelected } from "./JsonSelector.js";
+import {
+  buildRepairReport,
+  type JsonRepairReport,
+} from "./JsonRepairReport.js";
+import {
+  assertSchema,
+  JsonValidationError,
+  validateSchema,
+  type JsonCoercion,
+  type JsonCoercionOptions,
+  type JsonSchemaIssue,
+  type StandardSchemaV1,
+} from "./Schema.js";
+
 export interface JsonParseResult<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Location and context of the failure when the input could not be parsed */
+  parseError?: JsonParseError;
+  /** True when `repairTruncated` had to close an incomplete document */
+  repaired?: boolean;
+  /** Paths of the values that were cut off, outermost first */
+  incompletePaths?: JsonPath[];
+  /** Values that did not match the schema */
+  issues?: JsonSchemaIssue[];
+  /** Values changed to fit the schema, present when `coerce` is enabled */
+  coercions?: JsonCoercion[];
+  /** Every fix applied to read the content, present when `report` is enabled */
+  report?: JsonRepairReport;
+  /** Location of every value, present when `sourceMap` is enabled */
+  sourceMap?: JsonSourceMap;
+  /** Comments of the document, present when `keepComments` is enabled */
+  comments?: JsonComments;
 }
 
+/**
+ * Grammar presets:
+ * - `lenient`: JSON plus the features commonly found in model output
+ * - `json5`: the full JSON5 specification
+ * - `strict`: RFC 8259 JSON only, with no cleanup or extraction fallbacks
+ */
+export type JsonParseMode = "lenient" | "json5" | "strict";
+
+/**
+ * Non-JSON notations read on top of the mode:
+ * - `python`: `repr` output, with True, False, None and tuples
+ * - `javascript`: object literals, with `undefined`, template strings and
+ *   computed keys, and the JSON5 syntax
+ */
+export type JsonDialect = "python" | "javascript";
+
 export interface JsonParseOptions {
+  /**
+   * Grammar preset; the `allow*` options override individual features.
+   * Defaults to "lenient".
+   */
+  mode?: JsonParseMode;
+  /** Also read Python or JavaScript literals, converting them to JSON values */
+  dialect?: JsonDialect;
   allowTrailingCommas?: boolean;
   allowComments?: boolean;
   allowSingleQuotes?: boolean;
@@ -12,335 +93,632 @@ export interface JsonParseOptions {
   allowNaN?: boolean;
   allowInfinity?: boolean;
   stripBOM?: boolean;
+  /**
+   * Which fenced code block to parse when the content is Markdown, counting
+   * only blocks tagged `json`, `jsonc` or `json5` (or untagged blocks if there
+   * are none): an index from 0 or "last". A negative index selects no block.
+   * By default the first block that parses is used.
+   */
+  codeBlock?: number | "last";
+  /**
+   * Recover the largest valid prefix of a cut-off document: close an open
+   * string, drop a dangling key or partial number and close open brackets
+   */
+  repairTruncated?: boolean;
+  /**
+   * Recover unescaped quotes inside strings, such as `"He said "hi" to me"`,
+   * by reading a quote as part of the string unless what follows it could
+   * follow the string, and unescaped backslashes such as `"C:\dir"`
+   */
+  repairQuotes?: boolean;
+  /**
+   * Insert commas missing between members and colons missing after keys,
+   * as in `{"a": 1 "b" 2}`, and skip repeated commas
+   */
+  repairSeparators?: boolean;
+  /**
+   * Validate the parsed value; accepts the built-in schemas or any
+   * Standard Schema compatible validator
+   */
+  schema?: StandardSchemaV1;
+  /**
+   * Fix near-miss values using the types of a built-in `schema`, such as
+   * "3" where a number is expected or a single object where an array is
+   */
+  coerce?: boolean | JsonCoercionOptions;
+  /**
+   * Return integers beyond `Number.MAX_SAFE_INTEGER` as `bigint` instead of
+   * rounding them
+   */
+  bigint?: boolean;
+  /**
+   * Convert every number, including NaN and Infinity, from its source text;
+   * `value` is the number JSON.parse would give. Takes precedence over
+   * `bigint`.
+   */
+  numberFactory?: (source: string, value: number) => unknown;
+  /**
+   * Called with the key, value and path of every value, children first, as
+   * with JSON.parse; returning undefined removes the value. Runs after
+   * `transform`.
+   */
+  reviver?: JsonReviver;
+  /**
+   * Rename keys and replace values while parsing, such as the built-in
+   * `transforms.isoDates()`; several transforms run in order
+   */
+  transform?: JsonTransform | JsonTransform[];
+  /** Reject content longer than this many characters before parsing it */
+  maxLength?: number;
+  /**
+   * Reject objects and arrays nested deeper than this; the root is depth 1.
+   * Defaults to 1000 for text that `JSON.parse` does not read on its own
+   */
+  maxDepth?: number;
+  /** Reject objects with more members than this */
+  maxKeys?: number;
+  /** Reject strings and keys longer than this many characters */
+  maxStringLength?: number;
+  /**
+   * What to do when an object repeats a key: fail, keep the first value, or
+   * keep the last one as JSON.parse does (the default)
+   */
+  duplicateKeys?: "error" | "first" | "last";
+  /**
+   * How to treat `__proto__` and `constructor` keys: keep them as own
+   * properties as JSON.parse does, which never touches the prototype (the
+   * default), drop them or fail
+   */
+  prototypeKeys?: "keep" | "drop" | "error";
+  /**
+   * Have `tryParseJson` list every fix it applied, such as removed comments
+   * or discarded prose, with its location and before/after text
+   */
+  report?: boolean;
+  /**
+   * Have `tryParseJson` return the location of every value in the original
+   * content, keyed by JSON Pointer
+   */
+  sourceMap?: boolean;
+  /**
+   * Have `tryParseJson` return the comments of the document attached to the
+   * values they belong to, for writing them back with `stringifyJson`
+   */
+  keepComments?: boolean;
+  /**
+   * Return only the values matching these JSON Pointers or JSONPath
+   * expressions, such as `/agents/0` or `$.agents[*].name`, keyed by
+   * selector. Everything else is checked but never built.
+   */
+  select?: string[];
+  /**
+   * The repair strategies to run, in order, by registered name or as
+   * strategy objects, in place of the default pipeline of the mode
+   */
+  strategies?: Array<string | JsonRepairStrategy>;
+  /** Strategies to run on top of the pipeline */
+  enableStrategies?: Array<string | JsonRepairStrategy>;
+  /** Names of strategies to leave out of the pipeline */
+  disableStrategies?: string[];
+}
+
+type WithSchema<S extends StandardSchemaV1> = JsonParseOptions & { schema: S };
+
+export interface ParseOutcome extends LenientParseOutput {
+  /** Offset in the content where the parsed range begins */
+  start: number;
+  /** Whether a leading byte order mark was skipped */
+  bom: boolean;
+  /** Strategy that located the value, when the content did not parse whole */
+  strategy?: string;
+  /** Edits made by rewrite strategies before parsing */
+  rewrites?: RewriteEdit[];
 }
 
 /**
  * Attempts to parse JSON content from a string with various fallback strategies
  * @param content - The string content to parse
  * @param options - Parsing options for handling non-standard JSON
- * @returns Parsed JSON data or throws an error
+ * @returns Parsed JSON data, typed by `options.schema` when one is given
+ * @throws JsonParseError if the content cannot be parsed, or
+ * JsonValidationError if it does not match the schema
  */
+export function parseJson<S extends StandardSchemaV1>(
+  content: string,
+  options: WithSchema<S>
+): StandardSchemaV1.InferOutput<S>;
 export function parseJson<T = any>(
+  content: string,
+  options?: JsonParseOptions
+): T;
+export function parseJson(
   content: string,
   options: JsonParseOptions = {}
-): T {
-  const {
-    allowTrailingCommas = true,
-    allowComments = true,
-    allowSingleQuotes = true,
-    allowUnquotedKeys = false,
-    allowNaN = true,
-    allowInfinity = true,
-    stripBOM = true,
-  } = options;
-
-  // Try standard JSON.parse first
-  try {
-    return JSON.parse(content);
-  } catch (firstError) {
-    // If standard parse fails, try cleaning the content
-    let cleaned = content;
-
-    // Remove BOM (Byte Order Mark)
-    if (stripBOM && cleaned.charCodeAt(0) === 0xfeff) {
-      cleaned = cleaned.slice(1);
-    }
-
-    // Trim whitespace
-    cleaned = cleaned.trim();
-
-    // Escape control characters in strings FIRST (before other transformations)
-    cleaned = escapeControlCharacters(cleaned);
-
-    // Remove comments
-    if (allowComments) {
-      // Remove single-line comments
-      cleaned = cleaned.replace(/\/\/.*$/gm, "");
-      // Remove multi-line comments
-      cleaned = cleaned.replace(/\/\*[\s\S]*?\*\//g, "");
-    }
-
-    // Remove trailing commas
-    if (allowTrailingCommas) {
-      // Remove trailing commas before closing braces/brackets
-      cleaned = cleaned.replace(/,(\s*[}\]])/g, "$1");
-    }
-
-    // Convert single quotes to double quotes (basic approach)
-    if (allowSingleQuotes) {
-      cleaned = convertSingleQuotesToDouble(cleaned);
-    }
-
-    // Handle NaN and Infinity
-    if (allowNaN || allowInfinity) {
-      cleaned = cleaned.replace(/:\s*NaN/g, ': "NaN"');
-      cleaned = cleaned.replace(/:\s*Infinity/g, ': "Infinity"');
-      cleaned = cleaned.replace(/:\s*-Infinity/g, ': "-Infinity"');
-    }
-
-    // Handle unquoted keys (basic approach)
-    if (allowUnquotedKeys) {
-      cleaned = addQuotesToKeys(cleaned);
-    }
-
-    // Try parsing the cleaned content
-    try {
-      const result = JSON.parse(cleaned);
-
-      // Post-process to restore NaN and Infinity if needed
-      if (allowNaN || allowInfinity) {
-        return restoreSpecialValues(result, allowNaN, allowInfinity);
-      }
-
-      return result;
-    } catch (secondError) {
-      // Try to extract JSON from within the string
-      const extracted = extractJson(content);
-      if (extracted) {
-        try {
-          return JSON.parse(extracted);
-        } catch {
-          // Continue to final error
-        }
-      }
-
-      // If all attempts fail, throw a descriptive error
-      throw new Error(
-        `Failed to parse JSON: ${
-          secondError instanceof Error
-            ? secondError.message
-            : String(secondError)
-        }\nOriginal error: ${
-          firstError instanceof Error ? firstError.message : String(firstError)
-        }`
-      );
-    }
-  }
+): unknown {
+  const { schema, coerce } = options;
+  const value = resultValue(parseWithFallbacks(content, options), options);
+  return schema ? assertSchema(schema, value, coerce) : value;
 }
 
 /**
  * Safe version that returns a result object instead of throwing
  */
+export function tryParseJson<S extends StandardSchemaV1>(
+  content: string,
+  options: WithSchema<S>
+): JsonParseResult<StandardSchemaV1.InferOutput<S>>;
 export function tryParseJson<T = any>(
   content: string,
   options?: JsonParseOptions
-): JsonParseResult<T> {
+): JsonParseResult<T>;
+export function tryParseJson(
+  content: string,
+  options: JsonParseOptions = {}
+): JsonParseResult {
   try {
-    const data = parseJson<T>(content, options);
-    return { success: true, data };
+    return buildParseResult(
+      content,
+      parseWithFallbacks(content, options),
+      options
+    );
   } catch (error) {
+    return buildFailedResult(error);
+  }
+}
+
+/**
+ * Turn a successful parse into a result, validating it against the schema
+ * and adding the details the options ask for
+ */
+export function buildParseResult(
+  content: string,
+  outcome: ParseOutcome,
+  options: JsonParseOptions
+): JsonParseResult {
+  const { incompletePaths } = outcome;
+  const value = resultValue(outcome, options);
+  const repair = incompletePaths.length > 0 && {
+    repaired: true,
+    incompletePaths,
+  };
+  const report = options.report && {
+    report: buildRepairReport(content, outcome, options),
+  };
+  const sourceMap = options.sourceMap &&
+    outcome.spans && {
+      sourceMap: buildSourceMap(content, outcome.spans),
+    };
+  const comments = options.keepComments && {
+    comments: collectComments(content, outcome),
+  };
+
+  if (options.schema) {
+    const validated = validateSchema(options.schema, value, options.coerce);
+    const coercions = validated.coercions && {
+      coercions: validated.coercions,
+    };
+    if ("issues" in validated) {
+      return {
+        success: false,
+        error: new JsonValidationError(validated.issues).message,
+        issues: validated.issues,
+        ...repair,
+        ...coercions,
+        ...report,
+        ...sourceMap,
+        ...comments,
+      };
+    }
     return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
+      success: true,
+      data: validated.value,
+      ...repair,
+      ...coercions,
+      ...report,
+      ...sourceMap,
+      ...comments,
     };
   }
+
+  return {
+    success: true,
+    data: value,
+    ...repair,
+    ...report,
+    ...sourceMap,
+    ...comments,
+  };
 }
 
 /**
- * Convert single quotes to double quotes while preserving quoted content
+ * The parsed value, or the selected values grouped by selector
  */
-function convertSingleQuotesToDouble(str: string): string {
-  let result = "";
-  let inDoubleQuote = false;
-  let inSingleQuote = false;
-  let escaped = false;
-
-  for (let i = 0; i < str.length; i++) {
-    const char = str[i];
-    // const prevChar = i > 0 ? str[i - 1] : "";
-
-    if (escaped) {
-      result += char;
-      escaped = false;
-      continue;
-    }
+function resultValue(
+  outcome: ParseOutcome,
+  options: JsonParseOptions
+): unknown {
+  return options.select
+    ? groupSelected(options.select, outcome.selected ?? [])
+    : outcome.value;
+}
 
-    if (char === "\\") {
-      escaped = true;
-      result += char;
-      continue;
-    }
+/**
+ * Describe a failed parse as a result
+ */
+export function buildFailedResult(error: unknown): JsonParseResult {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+    ...(error instanceof JsonParseError && { parseError: error }),
+  };
+}
 
-    if (char === '"' && !inSingleQuote) {
-      inDoubleQuote = !inDoubleQuote;
-      result += char;
-    } else if (char === "'" && !inDoubleQuote) {
-      inSingleQuote = !inSingleQuote;
-      result += '"'; // Convert single quote to double quote
-    } else {
-      result += char;
+/**
+ * Run the parse attempts in order: standard JSON, then the repair pipeline,
+ * which rewrites the content, reads it with the lenient grammar and tries
+ * the candidates of the locating strategies. Strict mode stops after the
+ * grammar and reports its error as is.
+ */
+export function parseWithFallbacks(
+  content: string,
+  options: JsonParseOptions
+): ParseOutcome {
+  const strategies = resolveStrategies(options);
+  const grammar = grammarFor(options, strategies);
+  checkLength(content, options);
+
+  // Try standard JSON.parse first, unless numbers need their source text,
+  // hooks need the path of each value or safeguards need to see every member
+  let standardError: unknown;
+  if (!needsParser(grammar)) {
+    try {
+      return {
+        value: JSON.parse(content),
+        start: 0,
+        end: content.length,
+        incompletePaths: [],
+        extensions: [],
+        bom: false,
+      };
+    } catch (error) {
+      standardError = error;
     }
   }
 
-  return result;
+  // Parse the rewritten text, then map every offset back to the content
+  const rewritten = rewriteContent(content, strategies);
+  const restoreError = (error: JsonParseError) =>
+    rewritten.edits.length === 0
+      ? error
+      : JsonParseError.at(
+          error.reason,
+          content,
+          rewritten.toContent(error.offset, "start"),
+          error.stage,
+          error.expected,
+          error.code
+        );
+
+  let outcome: ParseOutcome | JsonParseError;
+  try {
+    outcome = parseRepaired(rewritten.text, grammar, strategies, options);
+  } catch (error) {
+    throw error instanceof JsonParseError ? restoreError(error) : error;
+  }
+  if (!(outcome instanceof JsonParseError)) {
+    return rewritten.edits.length === 0
+      ? outcome
+      : restoreOutcome(outcome, rewritten);
+  }
+
+  const furthest = restoreError(outcome);
+  const original =
+    standardError === undefined
+      ? ""
+      : `\nOriginal error: ${
+          standardError instanceof Error
+            ? standardError.message
+            : String(standardError)
+        }`;
+  throw new JsonParseError(
+    furthest,
+    `Failed to parse JSON: ${furthest.message}${original}`
+  );
 }
 
 /**
- * Escape control characters in JSON strings
+ * Parse with the grammar, then try the candidates of the pipeline
+ * @returns The outcome, or the error of the attempt that got furthest into
+ * the text when every attempt failed
+ * @throws JsonParseError in strict mode or when a safeguard is violated
  */
-function escapeControlCharacters(str: string): string {
-  let result = "";
-  let inString = false;
-  let escaped = false;
-
-  for (let i = 0; i < str.length; i++) {
-    const char = str[i];
-    const charCode = str.charCodeAt(i);
-
-    if (escaped) {
-      result += char;
-      escaped = false;
-      continue;
-    }
+function parseRepaired(
+  text: string,
+  grammar: LenientGrammar,
+  strategies: JsonRepairStrategy[],
+  options: JsonParseOptions
+): ParseOutcome | JsonParseError {
+  const {
+    mode,
+    stripBOM = strategyWithFeature(strategies, "bom") !== undefined,
+  } = options;
+  const bom = stripBOM && text.charCodeAt(0) === 0xfeff;
 
-    if (char === "\\") {
-      escaped = true;
-      result += char;
-      continue;
-    }
+  if (mode === "strict") {
+    const start = bom ? 1 : 0;
+    return { ...parseLenient(text, grammar, "raw", start), start, bom };
+  }
 
-    if (char === '"') {
-      inString = !inString;
-      result += char;
-      continue;
-    }
+  // Skip the BOM (Byte Order Mark) and surrounding whitespace
+  const [start, end] = trimRange(text, bom ? 1 : 0, text.length);
 
-    // If we're in a string and encounter a control character, escape it
-    if (inString && charCode < 32) {
-      switch (char) {
-        case "\n":
-          result += "\\n";
-          break;
-        case "\r":
-          result += "\\r";
-          break;
-        case "\t":
-          result += "\\t";
-          break;
-        case "\b":
-          result += "\\b";
-          break;
-        case "\f":
-          result += "\\f";
-          break;
-        default:
-          // For other control characters, use unicode escape
-          result += "\\u" + charCode.toString(16).padStart(4, "0");
-          break;
+  // Parse with the lenient grammar enabled by the options
+  try {
+    const output = parseLenient(text, grammar, "cleaned", start, end);
+    return { ...output, start, bom };
+  } catch (lenientError) {
+    const errors = [asParseError(lenientError)];
+
+    // Try the candidates in pipeline order, such as JSON code blocks before
+    // braces in the surrounding prose
+    for (const { name, locate } of strategies) {
+      for (const candidate of locate?.(text, options) ?? []) {
+        const outcome = parseCandidate(text, candidate, grammar, errors);
+        if (outcome) return { ...outcome, strategy: name };
       }
-    } else {
-      result += char;
     }
-  }
 
-  return result;
+    // Report the attempt that got furthest into the input
+    return errors.reduce((best, error) =>
+      error.offset > best.offset ? error : best
+    );
+  }
 }
 
 /**
- * Add quotes to unquoted object keys
+ * Move the offsets of an outcome from the rewritten text to the content
  */
-function addQuotesToKeys(str: string): string {
-  // Match unquoted keys (word characters followed by colon)
-  return str.replace(/([{,]\s*)([a-zA-Z_$][a-zA-Z0-9_$]*)\s*:/g, '$1"$2":');
+function restoreOutcome(
+  outcome: ParseOutcome,
+  { edits, toContent }: RewrittenContent
+): ParseOutcome {
+  const restoreSpan = <S extends SourceSpan | SyntaxExtension>(span: S): S => {
+    const restored = {
+      ...span,
+      start: toContent(span.start, "start"),
+      end: toContent(span.end, "end"),
+    };
+    return "key" in span && span.key
+      ? { ...restored, key: restoreSpan(span.key) }
+      : restored;
+  };
+
+  return {
+    ...outcome,
+    start: toContent(outcome.start, "start"),
+    end: toContent(outcome.end, "end"),
+    extensions: outcome.extensions.map(restoreSpan),
+    ...(outcome.spans && {
+      spans: new Map(
+        [...outcome.spans].map(([pointer, span]) => [
+          pointer,
+          restoreSpan(span),
+        ])
+      ),
+    }),
+    rewrites: edits,
+  };
 }
 
 /**
- * Extract JSON content from a string that might contain other text
+ * Map parse options onto the grammar features of the lenient parser
  */
-function extractJson(str: string): string | null {
-  // Try to find and extract the first complete JSON object
-  const objStart = str.indexOf("{");
-  if (objStart !== -1) {
-    const extracted = extractCompleteJson(str, objStart, "{", "}");
-    if (extracted) return extracted;
-  }
+export function resolveGrammar(options: JsonParseOptions): LenientGrammar {
+  return grammarFor(options, resolveStrategies(options));
+}
 
-  // Try to find and extract the first complete JSON array
-  const arrStart = str.indexOf("[");
-  if (arrStart !== -1) {
-    const extracted = extractCompleteJson(str, arrStart, "[", "]");
-    if (extracted) return extracted;
-  }
+/**
+ * Map parse options onto grammar features, enabling the features of the
+ * strategies in the pipeline unless an `allow*` option says otherwise
+ */
+function grammarFor(
+  options: JsonParseOptions,
+  strategies: JsonRepairStrategy[]
+): LenientGrammar {
+  const enabled = (feature: JsonGrammarFeature) =>
+    strategyWithFeature(strategies, feature) !== undefined;
+  // JavaScript object literals may use everything JSON5 adds to JSON
+  const json5 = options.mode === "json5" || enabled("javascriptLiterals");
+  const {
+    allowTrailingCommas = enabled("trailingCommas"),
+    allowComments = enabled("comments"),
+    allowSingleQuotes = enabled("singleQuotes"),
+    allowUnquotedKeys = enabled("unquotedKeys"),
+    allowNaN = enabled("nan"),
+    allowInfinity = enabled("infinity"),
+    repairTruncated = false,
+    repairQuotes = enabled("innerQuotes"),
+    repairSeparators = enabled("missingSeparators"),
+    bigint = false,
+    numberFactory,
+    reviver,
+    transform,
+    maxDepth,
+    maxKeys,
+    maxStringLength,
+    duplicateKeys,
+    prototypeKeys,
+    sourceMap = false,
+    keepComments = false,
+    select,
+  } = options;
 
-  return null;
+  return {
+    trailingCommas: allowTrailingCommas,
+    comments: allowComments,
+    singleQuotes: allowSingleQuotes,
+    unquotedKeys: allowUnquotedKeys,
+    nan: allowNaN,
+    infinity: allowInfinity,
+    controlCharacters: enabled("controlCharacters"),
+    extendedNumbers: json5,
+    extendedStrings: json5,
+    unicodeIdentifiers: json5,
+    extendedWhitespace: json5,
+    pythonLiterals: enabled("pythonLiterals"),
+    javascriptLiterals: enabled("javascriptLiterals"),
+    innerQuotes: repairQuotes,
+    missingSeparators: repairSeparators,
+    repairTruncated,
+    ...(numberFactory
+      ? { numberFactory }
+      : bigint && { numberFactory: toBigIntIfUnsafe }),
+    ...transformHooks(transform, reviver),
+    ...(maxDepth !== undefined && { maxDepth }),
+    ...(maxKeys !== undefined && { maxKeys }),
+    ...(maxStringLength !== undefined && { maxStringLength }),
+    ...(duplicateKeys !== undefined && { duplicateKeys }),
+    ...(prototypeKeys !== undefined && { prototypeKeys }),
+    ...((sourceMap || keepComments) && { spans: true }),
+    ...(select && { select: compileSelectors(select) }),
+  };
 }
 
 /**
- * Extract a complete JSON structure starting from a given position
+ * Whether the grammar needs more than JSON.parse offers, so the fast path
+ * must be skipped even for standard JSON
  */
-function extractCompleteJson(
-  str: string,
-  startPos: number,
-  openChar: string,
-  closeChar: string
-): string | null {
-  let depth = 0;
-  let inString = false;
-  let escaped = false;
-
-  for (let i = startPos; i < str.length; i++) {
-    const char = str[i];
-
-    if (escaped) {
-      escaped = false;
-      continue;
-    }
-
-    if (char === "\\") {
-      escaped = true;
-      continue;
-    }
+function needsParser(grammar: LenientGrammar): boolean {
+  const { duplicateKeys = "last", prototypeKeys = "keep" } = grammar;
+  return (
+    grammar.numberFactory !== undefined ||
+    grammar.renameKey !== undefined ||
+    grammar.revive !== undefined ||
+    grammar.maxDepth !== undefined ||
+    grammar.maxKeys !== undefined ||
+    grammar.maxStringLength !== undefined ||
+    grammar.spans === true ||
+    grammar.select !== undefined ||
+    duplicateKeys !== "last" ||
+    prototypeKeys !== "keep"
+  );
+}
 
-    if (char === '"') {
-      inString = !inString;
-      continue;
-    }
+/**
+ * Reject content longer than `maxLength` before any parse attempt
+ */
+export function checkLength(content: string, options: JsonParseOptions): void {
+  const { maxLength = Infinity } = options;
+  if (content.length > maxLength) {
+    throw JsonParseError.at(
+      `Input is longer than ${maxLength} characters`,
+      content,
+      maxLength,
+      "raw",
+      undefined,
+      "max-length"
+    );
+  }
+}
 
-    if (!inString) {
-      if (char === openChar) {
-        depth++;
-      } else if (char === closeChar) {
-        depth--;
-        if (depth === 0) {
-          return str.substring(startPos, i + 1);
-        }
-      }
-    }
+/**
+ * Keep integers beyond the safe range exact by returning them as bigint
+ */
+function toBigIntIfUnsafe(source: string, value: number): number | bigint {
+  if (
+    Number.isSafeInteger(value) ||
+    !/^[+-]?(?:\d+|0[xX][0-9a-fA-F]+)$/.test(source)
+  ) {
+    return value;
   }
+  const negative = source.startsWith("-");
+  const magnitude = BigInt(source.replace(/^[+-]/, ""));
+  return negative ? -magnitude : magnitude;
+}
 
-  return null;
+/**
+ * Narrow `start` and `end` to exclude surrounding whitespace
+ */
+export function trimRange(
+  text: string,
+  start: number,
+  end: number
+): [start: number, end: number] {
+  while (start < end && /\s/.test(text[start]!)) start++;
+  while (end > start && /\s/.test(text[end - 1]!)) end--;
+  return [start, end];
+}
+
+/**
+ * Only allow truncation repair for a range that runs to the end of the text;
+ * anything cut off earlier was not truncated by a token limit
+ */
+export function boundedGrammar(
+  text: string,
+  end: number,
+  grammar: LenientGrammar
+): LenientGrammar {
+  return end < text.length && grammar.repairTruncated
+    ? { ...grammar, repairTruncated: false }
+    : grammar;
 }
 
 /**
- * Restore special numeric values (NaN, Infinity) after parsing
+ * Parse the value in a candidate range, collecting the error if it fails
  */
-function restoreSpecialValues(
-  obj: any,
-  allowNaN: boolean,
-  allowInfinity: boolean
-): any {
-  if (obj === null || typeof obj !== "object") {
-    if (typeof obj === "string") {
-      if (allowNaN && obj === "NaN") return NaN;
-      if (allowInfinity && obj === "Infinity") return Infinity;
-      if (allowInfinity && obj === "-Infinity") return -Infinity;
+function parseCandidate(
+  text: string,
+  { start, end, allowTrailingText = false }: JsonCandidate,
+  grammar: LenientGrammar,
+  errors: JsonParseError[]
+): ParseOutcome | null {
+  const bounded = boundedGrammar(text, end, grammar);
+  try {
+    if (allowTrailingText) {
+      // A quote misread as closing can end the value early and pass the rest
+      // of the document off as trailing text, so the whole range goes first
+      if (bounded.innerQuotes) {
+        const whole = parseWhole(text, start, end, bounded);
+        if (whole) return whole;
+      }
+      const output = parseLenientAt(text, start, bounded, "extracted", end);
+      return { ...output, start, bom: false };
     }
-    return obj;
+    const [from, to] = trimRange(text, start, end);
+    const output = parseLenient(text, bounded, "extracted", from, to);
+    return { ...output, start: from, bom: false };
+  } catch (error) {
+    errors.push(asParseError(error));
+    return null;
   }
+}
 
-  if (Array.isArray(obj)) {
-    return obj.map((item) =>
-      restoreSpecialValues(item, allowNaN, allowInfinity)
-    );
+/**
+ * Parse a candidate range as one value, or return null on a syntax error
+ */
+function parseWhole(
+  text: string,
+  start: number,
+  end: number,
+  grammar: LenientGrammar
+): ParseOutcome | null {
+  const [from, to] = trimRange(text, start, end);
+  try {
+    const output = parseLenient(text, grammar, "extracted", from, to);
+    return { ...output, start: from, bom: false };
+  } catch (error) {
+    asParseError(error);
+    return null;
   }
+}
 
-  const result: any = {};
-  for (const key in obj) {
-    if (Object.prototype.hasOwnProperty.call(obj, key)) {
-      result[key] = restoreSpecialValues(obj[key], allowNaN, allowInfinity);
-    }
-  }
-  return result;
+/**
+ * Narrow a caught error to a JsonParseError, rethrowing anything unexpected
+ * and safeguard violations, which no fallback may work around
+ */
+export function asParseError(error: unknown): JsonParseError {
+  if (error instanceof JsonParseError && error.code === "syntax") return error;
+  throw error;
 }
 
 export default parseJson;
@@ -0,0 +1,36 @@
+/**
+ * Location of a value as a list of property names and array indices
+ */
+export type JsonPath = Array<string | number>;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Format a path the way it would be written in JavaScript, e.g. `agents[2].name`
+ */
+export function formatJsonPath(path: JsonPath): string {
+  let result = "";
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      result += `[${segment}]`;
+    } else if (IDENTIFIER.test(segment)) {
+      result += result ? `.${segment}` : segment;
+    } else {
+      result += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return result || "(root)";
+}
+
+/**
+ * Format a path as a JSON Pointer (RFC 6901), e.g. `/agents/2/name`; the root
+ * is the empty string
+ */
+export function formatJsonPointer(path: JsonPath): string {
+  return path
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`
+    )
+    .join("");
+}
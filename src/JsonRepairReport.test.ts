@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { tryParseJson } from "./JsonParser.js";
+
+describe("JsonRepairReport", () => {
+  const reportFor = (content: string, options = {}) =>
+    tryParseJson(content, { ...options, report: true }).report;
+
+  it("should report no repairs for standard JSON", () => {
+    expect(reportFor('{"a": 1}')).toEqual({
+      repairs: [],
+      discardedLeadingText: false,
+      discardedTrailingText: false,
+    });
+  });
+
+  it("should list each fix with its location and before/after text", () => {
+    const report = reportFor(`{
+  'name': 'O\\'Brien', // who
+  "tab": "a\tb",
+  "n": NaN,
+}`);
+
+    expect(report?.repairs).toEqual([
+      {
+        kind: "single-quotes",
+        offset: 4,
+        line: 2,
+        column: 3,
+        before: "'name'",
+        after: '"name"',
+        strategy: "single-quotes",
+      },
+      {
+        kind: "single-quotes",
+        offset: 12,
+        line: 2,
+        column: 11,
+        before: "'O\\'Brien'",
+        after: '"O\'Brien"',
+        strategy: "single-quotes",
+      },
+      {
+        kind: "escape",
+        offset: 14,
+        line: 2,
+        column: 13,
+        before: "\\'",
+        after: "'",
+      },
+      {
+        kind: "comment",
+        offset: 24,
+        line: 2,
+        column: 23,
+        before: "// who",
+        after: "",
+        strategy: "comments",
+      },
+      {
+        kind: "control-character",
+        offset: 42,
+        line: 3,
+        column: 12,
+        before: "\t",
+        after: "\\t",
+        strategy: "control-characters",
+      },
+      {
+        kind: "nan",
+        offset: 54,
+        line: 4,
+        column: 8,
+        before: "NaN",
+        after: "null",
+        strategy: "special-numbers",
+      },
+      {
+        kind: "trailing-comma",
+        offset: 57,
+        line: 4,
+        column: 11,
+        before: ",",
+        after: "",
+        strategy: "trailing-commas",
+      },
+    ]);
+  });
+
+  it("should report prose discarded by extraction", () => {
+    const report = reportFor('Sure:\n```json\n{"a": 1}\n```\nAnything else?');
+
+    expect(report?.discardedLeadingText).toBe(true);
+    expect(report?.discardedTrailingText).toBe(true);
+    expect(report?.repairs).toEqual([
+      {
+        kind: "leading-text",
+        offset: 0,
+        line: 1,
+        column: 1,
+        before: "Sure:\n```json",
+        after: "",
+        strategy: "code-blocks",
+      },
+      {
+        kind: "trailing-text",
+        offset: 23,
+        line: 4,
+        column: 1,
+        before: "```\nAnything else?",
+        after: "",
+        strategy: "code-blocks",
+      },
+    ]);
+  });
+
+  it("should report a skipped byte order mark", () => {
+    expect(reportFor('﻿{"a": 1}')?.repairs).toEqual([
+      {
+        kind: "bom",
+        offset: 0,
+        line: 1,
+        column: 1,
+        before: "﻿",
+        after: "",
+        strategy: "bom",
+      },
+    ]);
+  });
+
+  it("should give the standard form of JSON5 syntax", () => {
+    const report = reportFor("{ key: [0x1F, .5, '\\x41'] }", {
+      mode: "json5",
+    });
+    expect(report?.repairs.map(({ before, after }) => [before, after])).toEqual(
+      [
+        ["key", '"key"'],
+        ["0x1F", "31"],
+        [".5", "0.5"],
+        ["'\\x41'", '"A"'],
+        ["\\x41", "A"],
+      ]
+    );
+  });
+
+  it("should leave the report out unless requested", () => {
+    expect(tryParseJson("[1,]").report).toBeUndefined();
+  });
+});
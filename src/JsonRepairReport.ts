@@ -0,0 +1,166 @@
+import {
+  trimRange,
+  type JsonParseOptions,
+  type ParseOutcome,
+} from "./JsonParser.js";
+import { LineIndex } from "./JsonParseError.js";
+import type { SyntaxExtensionKind } from "./LenientParser.js";
+import {
+  resolveStrategies,
+  type JsonGrammarFeature,
+  type RewriteEdit,
+} from "./JsonStrategy.js";
+
+/**
+ * Kinds of repair: the syntax extensions of the lenient grammar, a skipped
+ * byte order mark, text discarded around the value and edits made by
+ * rewrite strategies
+ */
+export type JsonRepairKind =
+  SyntaxExtensionKind | "bom" | "leading-text" | "trailing-text" | "rewrite";
+
+export interface JsonRepair {
+  kind: JsonRepairKind;
+  /** Offset (UTF-16 code units) of the repaired text in the content */
+  offset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** The source text */
+  before: string;
+  /** Standard JSON text it was read as, empty when it was dropped */
+  after: string;
+  /** Name of the repair strategy that applied it, if one did */
+  strategy?: string;
+}
+
+export interface JsonRepairReport {
+  /** Every repair applied, in source order */
+  repairs: JsonRepair[];
+  /** Whether text before the value, such as prose or a code fence, was discarded */
+  discardedLeadingText: boolean;
+  /** Whether text after the value was discarded */
+  discardedTrailingText: boolean;
+}
+
+/**
+ * The grammar features each syntax extension relies on, for those a built-in
+ * strategy enables
+ */
+const FEATURES: Partial<Record<SyntaxExtensionKind, JsonGrammarFeature[]>> = {
+  comment: ["comments"],
+  "trailing-comma": ["trailingCommas"],
+  "single-quotes": ["singleQuotes"],
+  "unquoted-key": ["unquotedKeys"],
+  nan: ["nan"],
+  infinity: ["infinity"],
+  "control-character": ["controlCharacters"],
+  "python-literal": ["pythonLiterals"],
+  tuple: ["pythonLiterals"],
+  undefined: ["javascriptLiterals"],
+  "template-literal": ["javascriptLiterals"],
+  "computed-key": ["javascriptLiterals"],
+  "inner-quote": ["innerQuotes"],
+  "missing-comma": ["missingSeparators"],
+  "missing-colon": ["missingSeparators"],
+  "repeated-comma": ["missingSeparators"],
+  "number-key": ["pythonLiterals", "javascriptLiterals"],
+};
+
+interface RepairSpan {
+  kind: JsonRepairKind;
+  start: number;
+  end: number;
+  replacement: string;
+  strategy?: string | undefined;
+}
+
+/**
+ * Describe how a parse outcome departs from reading the content as standard
+ * JSON, naming the strategy of the pipeline behind each repair
+ */
+export function buildRepairReport(
+  content: string,
+  outcome: ParseOutcome,
+  options: JsonParseOptions
+): JsonRepairReport {
+  const { start, end, extensions, bom, strategy, rewrites = [] } = outcome;
+  const strategies = resolveStrategies(options);
+  const strategyFor = (needed: JsonGrammarFeature[] = []) =>
+    strategies.find(({ features = [] }) =>
+      needed.some((feature) => features.includes(feature))
+    )?.name;
+  const leading = discardedText(content, bom ? 1 : 0, start, rewrites);
+  const trailing = discardedText(content, end, content.length, rewrites);
+
+  const spans: RepairSpan[] = [];
+  if (bom) {
+    spans.push({
+      kind: "bom",
+      start: 0,
+      end: 1,
+      replacement: "",
+      strategy: strategyFor(["bom"]),
+    });
+  }
+  if (leading) spans.push({ kind: "leading-text", ...leading, strategy });
+  for (const edit of rewrites) spans.push({ kind: "rewrite", ...edit });
+  for (const extension of extensions) {
+    spans.push({
+      ...extension,
+      strategy: strategyFor(FEATURES[extension.kind]),
+    });
+  }
+  if (trailing) spans.push({ kind: "trailing-text", ...trailing, strategy });
+
+  // Rewrites may fall anywhere in the content; sorting is stable
+  spans.sort((a, b) => a.start - b.start);
+
+  const lines = new LineIndex(content);
+  const repairs = spans.map(
+    ({ kind, start, end, replacement, strategy }): JsonRepair => {
+      const { line, column } = lines.locate(start);
+      return {
+        kind,
+        offset: start,
+        line,
+        column,
+        before: content.slice(start, end),
+        after: replacement,
+        ...(strategy !== undefined && { strategy }),
+      };
+    }
+  );
+
+  return {
+    repairs,
+    discardedLeadingText: leading !== null,
+    discardedTrailingText: trailing !== null,
+  };
+}
+
+/**
+ * The span of non-whitespace text between `from` and `to` that no rewrite
+ * already accounts for, if there is any
+ */
+function discardedText(
+  content: string,
+  from: number,
+  to: number,
+  rewrites: RewriteEdit[]
+): { start: number; end: number; replacement: string } | null {
+  const sorted = rewrites.toSorted((a, b) => a.start - b.start);
+  let [start, end] = trimRange(content, from, to);
+  for (const rewrite of sorted) {
+    if (rewrite.start <= start && rewrite.end > start) {
+      [start, end] = trimRange(content, rewrite.end, end);
+    }
+  }
+  for (const rewrite of sorted.toReversed()) {
+    if (rewrite.start < end && rewrite.end >= end) {
+      [start, end] = trimRange(content, start, rewrite.start);
+    }
+  }
+  return start < end ? { start, end, replacement: "" } : null;
+}
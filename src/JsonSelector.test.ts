@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseJson, tryParseJson } from "./JsonParser.js";
+
+const response = readFileSync(join("tests", "test2.json"), "utf-8");
+
+describe("select", () => {
+  it("should return the values matching a JSONPath expression", () => {
+    expect(parseJson(response, { select: ["$.agents[*].name"] })).toEqual({
+      "$.agents[*].name": [
+        "Data Collector",
+        "Content Processor",
+        "Message Sender",
+      ],
+    });
+  });
+
+  it("should accept JSON Pointers and several selectors", () => {
+    const text = '{"a": {"b/c": [10, 20], "~d": true}, "e": null}';
+    expect(
+      parseJson(text, { select: ["/a/b~1c/1", "/a/~0d", "/e", "/missing"] })
+    ).toEqual({
+      "/a/b~1c/1": [20],
+      "/a/~0d": [true],
+      "/e": [null],
+      "/missing": [],
+    });
+    expect(parseJson(text, { select: [""] })).toEqual({
+      "": [JSON.parse(text)],
+    });
+  });
+
+  it("should support names, indices, wildcards and recursive descent", () => {
+    const text = `{
+      "store": {
+        "books": [
+          {"title": "A", "price": 8, "meta": {"title": "inner"}},
+          {"title": "B", "price": 12}
+        ],
+        "full name": "Shop"
+      }
+    }`;
+    expect(
+      parseJson(text, {
+        select: [
+          "store.books[1].title",
+          "$['store']['full name']",
+          "$.store.books[*].price",
+          "$..title",
+          "$.store.*",
+        ],
+      })
+    ).toEqual({
+      "store.books[1].title": ["B"],
+      "$['store']['full name']": ["Shop"],
+      "$.store.books[*].price": [8, 12],
+      "$..title": ["A", "inner", "B"],
+      "$.store.*": [
+        [
+          { title: "A", price: 8, meta: { title: "inner" } },
+          { title: "B", price: 12 },
+        ],
+        "Shop",
+      ],
+    });
+  });
+
+  it("should list values nested inside other selected values", () => {
+    expect(parseJson('{"a": {"a": 1}}', { select: ["$..a", "/a/a"] })).toEqual({
+      "$..a": [{ a: 1 }, 1],
+      "/a/a": [1],
+    });
+  });
+
+  it("should not build or revive anything outside the selection", () => {
+    const seen: string[] = [];
+    parseJson('{"keep": {"x": 1}, "skip": {"y": [2, 3]}}', {
+      select: ["/keep"],
+      reviver: (key, value) => {
+        seen.push(key);
+        return value;
+      },
+    });
+    expect(seen).toEqual(["x", "keep"]);
+  });
+
+  it("should still reject invalid syntax outside the selection", () => {
+    const result = tryParseJson('{"a": 1, "b": [1 2]}', { select: ["/a"] });
+    expect(result.success).toBe(false);
+  });
+
+  it("should work with lenient syntax, extraction and repair", () => {
+    const text =
+      "Here you go:\n```json\n{'agents': [{name: 'a',}, {name: 'b'}], // done\n}\n```";
+    expect(
+      parseJson(text, { mode: "json5", select: ["$.agents[*].name"] })
+    ).toEqual({ "$.agents[*].name": ["a", "b"] });
+
+    expect(
+      tryParseJson('{"items": [{"id": 1}, {"id": 2', {
+        select: ["$.items[*].id"],
+        repairTruncated: true,
+      })
+    ).toMatchObject({ success: true, data: { "$.items[*].id": [1, 2] } });
+  });
+
+  it("should match paths after keys are renamed", () => {
+    expect(
+      parseJson('{"user_info": {"first_name": "Ada"}}', {
+        transform: { key: (key) => key.toUpperCase() },
+        select: ["$.USER_INFO.FIRST_NAME"],
+      })
+    ).toEqual({ "$.USER_INFO.FIRST_NAME": ["Ada"] });
+  });
+
+  it("should validate the selection against a schema", () => {
+    const schema = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: (value: unknown) => ({ value }),
+      },
+    };
+    const result = tryParseJson(response, { select: ["/completed"], schema });
+    expect(result).toMatchObject({
+      success: true,
+      data: { "/completed": [true] },
+    });
+  });
+
+  it("should reject malformed selectors", () => {
+    for (const selector of ["$.", "$[", "$[-1]", "$.a[?(@.b)]", "a b"]) {
+      expect(() => parseJson("{}", { select: [selector] })).toThrow(
+        SyntaxError
+      );
+    }
+  });
+});
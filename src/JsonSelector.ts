@@ -0,0 +1,214 @@
+import type { SelectDecision, SelectedValue } from "./LenientParser.js";
+import type { JsonPath } from "./JsonPath.js";
+
+/**
+ * One step of a selector: a property name (which also matches the array
+ * index it spells, as in JSON Pointer), an array index or any member, either
+ * directly below the previous step or at any depth below it
+ */
+interface SelectorStep {
+  match: { name: string } | { index: number } | "any";
+  descendant: boolean;
+}
+
+const INDEX_TOKEN = /^(?:0|[1-9]\d*)$/;
+const NAME_PATTERN = /[A-Za-z_$][A-Za-z0-9_$-]*/y;
+
+/**
+ * Build the grammar's `select` hook for a list of selectors: a path is kept
+ * if a selector matches it, searched if one may match a path below it and
+ * skipped otherwise
+ * @throws SyntaxError if a selector is malformed
+ */
+export function compileSelectors(
+  selectors: string[]
+): (path: JsonPath) => SelectDecision {
+  const compiled = selectors.map(parseSelector);
+  return (path) => {
+    let decision: SelectDecision = "skip";
+    for (const steps of compiled) {
+      const states = walk(steps, path);
+      if (states.has(steps.length)) return "keep";
+      if (states.size > 0) decision = "search";
+    }
+    return decision;
+  };
+}
+
+/**
+ * Group the values kept while parsing by the selectors matching them,
+ * including values nested inside a kept value, in source order
+ */
+export function groupSelected(
+  selectors: string[],
+  selected: SelectedValue[]
+): Record<string, unknown[]> {
+  const groups: Record<string, unknown[]> = {};
+  for (const selector of selectors) {
+    const steps = parseSelector(selector);
+    const values: unknown[] = [];
+    const visit = (states: Set<number>, value: unknown): void => {
+      if (states.has(steps.length)) values.push(value);
+      if (value === null || typeof value !== "object") return;
+      const children: Array<[string | number, unknown]> = Array.isArray(value)
+        ? value.map((child, index) => [index, child])
+        : Object.entries(value);
+      for (const [segment, child] of children) {
+        const next = advance(steps, states, segment);
+        if (next.size > 0) visit(next, child);
+      }
+    };
+    for (const { path, value } of selected) {
+      const states = walk(steps, path);
+      if (states.size > 0) visit(states, value);
+    }
+    groups[selector] = values;
+  }
+  return groups;
+}
+
+/**
+ * Parse a JSON Pointer, such as `/agents/0/name`, or a JSONPath expression,
+ * such as `$.agents[*].name`, `agents[0]['full name']` or `$..name`
+ */
+function parseSelector(selector: string): SelectorStep[] {
+  if (selector === "" || selector.startsWith("/")) {
+    return parsePointer(selector);
+  }
+
+  const steps: SelectorStep[] = [];
+  const fail = (pos: number): never => {
+    throw new SyntaxError(
+      `Invalid selector ${JSON.stringify(selector)} at position ${pos}`
+    );
+  };
+  let pos = selector.startsWith("$") ? 1 : 0;
+  // A leading name needs no dot, as in `agents[0]`
+  let expectName = pos === 0;
+
+  while (pos < selector.length) {
+    let descendant = false;
+    if (selector.startsWith("..", pos)) {
+      descendant = true;
+      pos += 2;
+      expectName = selector[pos] !== "[";
+    } else if (selector[pos] === ".") {
+      pos++;
+      expectName = true;
+    }
+
+    if (expectName) {
+      expectName = false;
+      if (selector[pos] === "*") {
+        steps.push({ match: "any", descendant });
+        pos++;
+        continue;
+      }
+      NAME_PATTERN.lastIndex = pos;
+      const name = NAME_PATTERN.exec(selector)?.[0] ?? fail(pos);
+      steps.push({ match: { name }, descendant });
+      pos += name.length;
+      continue;
+    }
+
+    if (selector[pos] !== "[") fail(pos);
+    const close = findBracketEnd(selector, pos) ?? fail(pos);
+    const inner = selector.slice(pos + 1, close).trim();
+    if (inner === "*") {
+      steps.push({ match: "any", descendant });
+    } else if (INDEX_TOKEN.test(inner)) {
+      steps.push({ match: { index: Number(inner) }, descendant });
+    } else if (/^(['"]).*\1$/s.test(inner)) {
+      steps.push({ match: { name: unquote(inner) ?? fail(pos) }, descendant });
+    } else {
+      fail(pos + 1);
+    }
+    pos = close + 1;
+  }
+
+  return steps;
+}
+
+/**
+ * Parse an RFC 6901 JSON Pointer
+ */
+function parsePointer(pointer: string): SelectorStep[] {
+  if (pointer === "") return [];
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => ({
+      match: { name: token.replace(/~1/g, "/").replace(/~0/g, "~") },
+      descendant: false,
+    }));
+}
+
+/**
+ * Offset of the `]` closing the bracket at `start`, skipping quoted names
+ */
+function findBracketEnd(selector: string, start: number): number | undefined {
+  let quote: string | undefined;
+  for (let i = start + 1; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "]") {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode a quoted name in brackets, in either quote style
+ */
+function unquote(quoted: string): string | undefined {
+  const body = quoted.slice(1, -1);
+  const escaped =
+    quoted[0] === "'" ? body.replace(/\\'/g, "'").replace(/"/g, '\\"') : body;
+  try {
+    return JSON.parse(`"${escaped}"`) as string;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Positions in the steps reachable after walking the path; the length of
+ * the steps among them means the path matches
+ */
+function walk(steps: SelectorStep[], path: JsonPath): Set<number> {
+  let states = new Set([0]);
+  for (const segment of path) {
+    states = advance(steps, states, segment);
+    if (states.size === 0) break;
+  }
+  return states;
+}
+
+/**
+ * Positions in the steps reachable from `states` by one more path segment
+ */
+function advance(
+  steps: SelectorStep[],
+  states: Set<number>,
+  segment: string | number
+): Set<number> {
+  const next = new Set<number>();
+  for (const state of states) {
+    const step = steps[state];
+    if (!step) continue;
+    if (step.descendant) next.add(state);
+    if (matches(step, segment)) next.add(state + 1);
+  }
+  return next;
+}
+
+function matches({ match }: SelectorStep, segment: string | number): boolean {
+  if (match === "any") return true;
+  if ("index" in match) return segment === match.index;
+  return String(segment) === match.name;
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { parseJsonLines, parseJsonSequence } from "./JsonSequence.js";
+import { expectLinearTime } from "./testTiming.js";
+
+function split(text: string, size: number): string[] {
+  const chunks = [];
+  for (let pos = 0; pos < text.length; pos += size) {
+    chunks.push(text.slice(pos, pos + size));
+  }
+  return chunks;
+}
+
+describe("parseJsonLines", () => {
+  it("should parse each line and report failures without stopping", () => {
+    const input = [
+      '{"id": 1}',
+      "",
+      "{'id': 2,}",
+      "not json",
+      'INFO {"id": 3}',
+    ].join("\n");
+    const records = [...parseJsonLines(input)];
+
+    expect(records.map(({ success, data }) => ({ success, data }))).toEqual([
+      { success: true, data: { id: 1 } },
+      { success: true, data: { id: 2 } },
+      { success: false, data: undefined },
+      { success: true, data: { id: 3 } },
+    ]);
+    expect(records.map(({ line, offset }) => [line, offset])).toEqual([
+      [1, 0],
+      [3, 11],
+      [4, 22],
+      [5, 31],
+    ]);
+    expect(records[2]!.parseError).toBeDefined();
+  });
+
+  it("should handle CRLF line breaks and a final line without a break", () => {
+    const records = [...parseJsonLines('1\r\n[2]\r\n"three"')];
+    expect(records.map((record) => record.data)).toEqual([1, [2], "three"]);
+  });
+
+  it("should validate every line against a schema", () => {
+    const schema = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: (value: unknown) =>
+          typeof value === "number"
+            ? { value }
+            : { issues: [{ message: "Expected a number" }] },
+      },
+    };
+    const records = [...parseJsonLines('1\n"2"\n3', { schema })];
+    expect(records.map((record) => record.success)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  it("should read lines split across chunks of a stream", async () => {
+    const chunks = ['{"a":', ' 1}\n{"b"', ": 2}\n", "[3]"];
+    const records = [];
+    for await (const record of parseJsonLines(Readable.from(chunks))) {
+      records.push(record);
+    }
+    expect(records.map(({ data, line }) => ({ data, line }))).toEqual([
+      { data: { a: 1 }, line: 1 },
+      { data: { b: 2 }, line: 2 },
+      { data: [3], line: 3 },
+    ]);
+  });
+
+  it("should decode multi-byte characters split across byte chunks", async () => {
+    const bytes = new TextEncoder().encode('{"word": "héllo"}\n');
+    const chunks = [bytes.slice(0, 12), bytes.slice(12)];
+    const records = [];
+    for await (const record of parseJsonLines(Readable.from(chunks))) {
+      records.push(record);
+    }
+    expect(records[0]!.data).toEqual({ word: "héllo" });
+  });
+
+  it("should read a long line in small chunks in linear time", async () => {
+    await expectLinearTime(async (size) => {
+      const value = { text: "x".repeat(size) };
+      const chunks = split(`${JSON.stringify(value)}\n[1]`, 64);
+      const records = [];
+      for await (const record of parseJsonLines(Readable.from(chunks))) {
+        records.push(record);
+      }
+      expect(records.map(({ data }) => data)).toEqual([value, [1]]);
+    }, 250_000);
+  });
+});
+
+describe("parseJsonSequence", () => {
+  it("should split concatenated values", () => {
+    const records = [...parseJsonSequence('{"a":1}{"b":2}[3] 4 "five"true')];
+    expect(records.map((record) => record.data)).toEqual([
+      { a: 1 },
+      { b: 2 },
+      [3],
+      4,
+      "five",
+      true,
+    ]);
+    expect(records.map((record) => record.offset)).toEqual([
+      0, 7, 14, 18, 20, 26,
+    ]);
+  });
+
+  it("should read values spanning several lines", () => {
+    const input = '{\n  "a": 1,\n}\n\n{\n  "b": [\n    2\n  ]\n}\n';
+    const records = [...parseJsonSequence(input)];
+    expect(records.map(({ data, line }) => ({ data, line }))).toEqual([
+      { data: { a: 1 }, line: 1 },
+      { data: { b: [2] }, line: 5 },
+    ]);
+  });
+
+  it("should skip RFC 7464 record separators", () => {
+    const records = [...parseJsonSequence('\x1e{"a":1}\n\x1e{"b":2}\n')];
+    expect(records.map((record) => record.data)).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("should resume at the next record after a failure", () => {
+    const input = '{"a": 1 "b": 2}\n{"c": 3}\n{"d": @}\n  {"e": 5}\n[6]';
+    const records = [...parseJsonSequence(input)];
+
+    expect(records.map(({ success, data }) => ({ success, data }))).toEqual([
+      { success: false, data: undefined },
+      { success: true, data: { c: 3 } },
+      { success: false, data: undefined },
+      { success: true, data: [6] },
+    ]);
+    expect(records[0]!.parseError?.offset).toBe(8);
+    expect(records[2]!.line).toBe(3);
+    expect(records[3]!.line).toBe(5);
+  });
+
+  it("should report a truncated final value unless asked to repair it", () => {
+    const input = '{"a": 1}\n{"b": [1, 2';
+    expect([...parseJsonSequence(input)].map((r) => r.success)).toEqual([
+      true,
+      false,
+    ]);
+    expect(
+      [...parseJsonSequence(input, { repairTruncated: true })][1]
+    ).toMatchObject({ success: true, data: { b: [1, 2] }, repaired: true });
+  });
+
+  it("should apply safeguards to each value", () => {
+    const records = [
+      ...parseJsonSequence("[[1]]\n[[[1]]]\n[2]", { maxDepth: 2 }),
+    ];
+    expect(records.map((record) => record.success)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(records[1]!.parseError?.code).toBe("max-depth");
+  });
+
+  it("should wait for values split across chunks of a stream", async () => {
+    const chunks = ['{"a": [1', ', 2]}{"b"', ": 12", "34}", "56", "78 9"];
+    const records = [];
+    for await (const record of parseJsonSequence(Readable.from(chunks))) {
+      records.push(record);
+    }
+    expect(records.map((record) => record.data)).toEqual([
+      { a: [1, 2] },
+      { b: 1234 },
+      5678,
+      9,
+    ]);
+  });
+
+  it("should not mistake brackets in strings and comments for the end", async () => {
+    const chunks = ['{"a": "}', '", /* ] */ "b"', ": ['{'", "]}\n", "[1]"];
+    const records = [];
+    for await (const record of parseJsonSequence(Readable.from(chunks))) {
+      records.push(record);
+    }
+    expect(records.map((record) => record.data)).toEqual([
+      { a: "}", b: ["{"] },
+      [1],
+    ]);
+  });
+
+  it("should read a large value in small chunks in linear time", async () => {
+    await expectLinearTime(async (size) => {
+      const value = Array.from({ length: size }, (_, id) => ({
+        id,
+        text: `item "${id}" [{`,
+      }));
+      const chunks = split(JSON.stringify(value), 1024);
+      const records = [];
+      for await (const record of parseJsonSequence(Readable.from(chunks))) {
+        records.push(record);
+      }
+      expect(records).toHaveLength(1);
+      expect(records[0]!.data).toEqual(value);
+    }, 7500);
+  });
+
+  it("should give each record its own offsets", () => {
+    const [, second] = [
+      ...parseJsonSequence('{"a": 1}\n{"b": x}', { report: true }),
+    ];
+    expect(second!.parseError?.offset).toBe(6);
+    expect(second!.offset).toBe(9);
+  });
+});
@@ -0,0 +1,338 @@
+import { parseLenientAt, type LenientGrammar } from "./LenientParser.js";
+import {
+  buildFailedResult,
+  buildParseResult,
+  checkLength,
+  resolveGrammar,
+  tryParseJson,
+  type JsonParseOptions,
+  type JsonParseResult,
+} from "./JsonParser.js";
+
+/**
+ * Result of parsing one record; offsets in `parseError`, `report` and
+ * `sourceMap` are relative to the record
+ */
+export type JsonRecord<T = any> = JsonParseResult<T> & {
+  /** Line of the input where the record starts, counting from 1 */
+  line: number;
+  /** Offset in the input where the record starts */
+  offset: number;
+};
+
+/** Source of chunks, such as a Node `Readable` or a fetch response body */
+export type JsonChunkSource = AsyncIterable<string | Uint8Array>;
+
+/**
+ * Incremental reader turning chunks of text into records
+ */
+export interface RecordReader {
+  /** Read the records completed by a chunk of text */
+  push(chunk: string): Generator<JsonRecord>;
+  /** Read the records left at the end of the input */
+  end(): Generator<JsonRecord>;
+}
+
+/** Strings are fed to a reader in slices so that its buffer stays small */
+const STRING_CHUNK_SIZE = 1 << 16;
+
+/**
+ * Parse JSON Lines (NDJSON): one value per line, each read with the same
+ * leniency and extraction fallbacks as `tryParseJson`. Blank lines are
+ * skipped; a line that fails to parse is reported as a failed record and the
+ * rest of the input is still read.
+ * @param input - The text, or a stream of text or bytes such as a Node `Readable`
+ * @param options - Parsing options applied to every line
+ * @returns The records, synchronously for a string and asynchronously for a stream
+ */
+export function parseJsonLines<T = any>(
+  input: string,
+  options?: JsonParseOptions
+): IterableIterator<JsonRecord<T>>;
+export function parseJsonLines<T = any>(
+  input: JsonChunkSource,
+  options?: JsonParseOptions
+): AsyncIterableIterator<JsonRecord<T>>;
+export function parseJsonLines(
+  input: string | JsonChunkSource,
+  options: JsonParseOptions = {}
+): IterableIterator<JsonRecord> | AsyncIterableIterator<JsonRecord> {
+  return typeof input === "string"
+    ? readString(input, createLineReader(options))
+    : readStream(input, createLineReader(options));
+}
+
+/**
+ * Parse a sequence of JSON values written one after another, with or without
+ * whitespace, line breaks or the record separators of RFC 7464 between them,
+ * such as `{"a":1}{"b":2}`. A value may span several lines. A value that
+ * fails to parse is reported as a failed record and reading resumes at the
+ * next line starting with `{` or `[`.
+ * @param input - The text, or a stream of text or bytes such as a Node `Readable`
+ * @param options - Parsing options applied to every value; extraction from
+ * surrounding text does not apply
+ * @returns The records, synchronously for a string and asynchronously for a stream
+ */
+export function parseJsonSequence<T = any>(
+  input: string,
+  options?: JsonParseOptions
+): IterableIterator<JsonRecord<T>>;
+export function parseJsonSequence<T = any>(
+  input: JsonChunkSource,
+  options?: JsonParseOptions
+): AsyncIterableIterator<JsonRecord<T>>;
+export function parseJsonSequence(
+  input: string | JsonChunkSource,
+  options: JsonParseOptions = {}
+): IterableIterator<JsonRecord> | AsyncIterableIterator<JsonRecord> {
+  return typeof input === "string"
+    ? readString(input, createSequenceReader(options))
+    : readStream(input, createSequenceReader(options));
+}
+
+function* readString(
+  input: string,
+  reader: RecordReader
+): Generator<JsonRecord> {
+  for (let pos = 0; pos < input.length; pos += STRING_CHUNK_SIZE) {
+    yield* reader.push(input.slice(pos, pos + STRING_CHUNK_SIZE));
+  }
+  yield* reader.end();
+}
+
+async function* readStream(
+  input: JsonChunkSource,
+  reader: RecordReader
+): AsyncGenerator<JsonRecord> {
+  const decoder = new TextDecoder();
+  for await (const chunk of input) {
+    yield* reader.push(
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true })
+    );
+  }
+  yield* reader.push(decoder.decode());
+  yield* reader.end();
+}
+
+/**
+ * Reader splitting the input into lines and parsing each one on its own
+ */
+function createLineReader(options: JsonParseOptions): RecordReader {
+  let buffer = "";
+  let line = 1;
+  let offset = 0;
+
+  function* parseLine(text: string): Generator<JsonRecord> {
+    const content = text.endsWith("\r") ? text.slice(0, -1) : text;
+    if (content.trim()) {
+      yield { ...tryParseJson(content, options), line, offset };
+    }
+  }
+
+  return {
+    *push(chunk) {
+      // The buffer holds no line break, so only the new text is searched
+      let pos = 0;
+      let newline: number;
+      while ((newline = chunk.indexOf("\n", pos)) !== -1) {
+        const text = buffer + chunk.slice(pos, newline);
+        buffer = "";
+        yield* parseLine(text);
+        offset += text.length + 1;
+        line++;
+        pos = newline + 1;
+      }
+      buffer += chunk.slice(pos);
+    },
+
+    *end() {
+      yield* parseLine(buffer);
+      offset += buffer.length;
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Reader parsing one value after another, waiting for more text while the
+ * value at the start of the buffer may still grow. Each chunk is scanned
+ * once, and a value is only parsed after the scan has seen it end.
+ */
+export function createSequenceReader(options: JsonParseOptions): RecordReader {
+  const grammar = resolveGrammar(options);
+  let buffer = "";
+  let line = 1;
+  let offset = 0;
+  /** Whether a failed value is being skipped up to the next record */
+  let resyncing = false;
+  /** Scanner following the value at the start of the buffer */
+  let scan: ValueScanner | undefined;
+  /** End of the value at the start of the buffer, once the scan has seen it */
+  let valueEnd: number | undefined;
+
+  const drop = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      if (buffer[i] === "\n") line++;
+    }
+    offset += count;
+    buffer = buffer.slice(count);
+  };
+
+  function* read(final: boolean): Generator<JsonRecord> {
+    for (;;) {
+      if (!scan) {
+        if (resyncing) {
+          const next = buffer.search(/\n[{[]/);
+          if (next === -1) {
+            // Keep the last line break, which a record may follow
+            const lastBreak = buffer.lastIndexOf("\n");
+            drop(final || lastBreak === -1 ? buffer.length : lastBreak);
+            return;
+          }
+          drop(next + 1);
+          resyncing = false;
+        }
+
+        // Skip whitespace, byte order marks and RFC 7464 record separators
+        const start = buffer.search(/[^\s\x1e]/);
+        if (start === -1) {
+          drop(buffer.length);
+          return;
+        }
+        drop(start);
+        scan = createValueScanner(grammar);
+        valueEnd = scan(buffer);
+      }
+
+      let record: JsonParseResult;
+      let length: number;
+      try {
+        if (valueEnd === undefined && !final) {
+          // Keep the buffer for the next chunk, unless it is already too long
+          checkLength(buffer, options);
+          return;
+        }
+        const output = parseLenientAt(buffer, 0, grammar, "raw");
+        const content = buffer.slice(0, output.end);
+        checkLength(content, options);
+        record = buildParseResult(
+          content,
+          {
+            ...output,
+            start: 0,
+            bom: false,
+          },
+          options
+        );
+        length = output.end;
+      } catch (error) {
+        record = buildFailedResult(error);
+        length = 0;
+        resyncing = true;
+      }
+
+      yield { ...record, line, offset };
+      scan = undefined;
+      drop(length);
+    }
+  }
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      if (scan && valueEnd === undefined) {
+        const end = scan(chunk);
+        if (end !== undefined) valueEnd = end;
+      }
+      return read(false);
+    },
+    end() {
+      return read(true);
+    },
+  };
+}
+
+/**
+ * Follows a value through consecutive pieces of its text and returns the
+ * offset just past the value, counted from the start of the first piece,
+ * once it has ended
+ */
+export type ValueScanner = (text: string) => number | undefined;
+
+/**
+ * Scan a value by tracking strings, comments and bracket depth without
+ * parsing it; a number or literal ends at the first character that cannot
+ * belong to it
+ */
+export function createValueScanner(grammar: LenientGrammar): ValueScanner {
+  const quotes = `"${grammar.singleQuotes ? "'" : ""}${
+    grammar.javascriptLiterals ? "`" : ""
+  }`;
+  const opening = grammar.pythonLiterals ? "{[(" : "{[";
+  const closing = grammar.pythonLiterals ? "}])" : "}]";
+  let scanned = 0;
+  let depth = 0;
+  let quote = "";
+  let escaped = false;
+  let comment: "line" | "block" | undefined;
+  /** A '/' that may start a comment */
+  let slash = false;
+  /** A '*' that may end a block comment */
+  let star = false;
+  /** Whether the value is a number or literal */
+  let scalar = false;
+
+  return (text) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+
+      if (quote) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === quote) {
+          quote = "";
+          if (depth === 0) return scanned + i + 1;
+        }
+        continue;
+      }
+      if (comment === "line") {
+        if (char === "\n" || char === "\r") comment = undefined;
+        continue;
+      }
+      if (comment === "block") {
+        if (star && char === "/") comment = undefined;
+        star = char === "*";
+        continue;
+      }
+      if (slash) {
+        slash = false;
+        if (char === "/" || char === "*") {
+          comment = char === "/" ? "line" : "block";
+          star = false;
+          continue;
+        }
+      }
+
+      if (scalar) {
+        if (/[\s,\x1e/{}[\]()"'`]/.test(char)) return scanned + i;
+      } else if (quotes.includes(char)) {
+        quote = char;
+      } else if (opening.includes(char)) {
+        depth++;
+      } else if (closing.includes(char)) {
+        // A stray closing bracket ends the value, to be reported by the parser
+        if (depth === 0 || --depth === 0) return scanned + i + 1;
+      } else if (char === "/" && grammar.comments) {
+        slash = true;
+      } else if (depth === 0) {
+        scalar = true;
+      }
+    }
+    scanned += text.length;
+    return undefined;
+  };
+}
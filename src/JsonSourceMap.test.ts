@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { tryParseJson } from "./JsonParser.js";
+import { formatJsonPointer } from "./JsonPath.js";
+import { schema } from "./Schema.js";
+
+describe("sourceMap", () => {
+  it("should map every value to its span, line and column", () => {
+    const content = '{\n  "name": "Ada",\n  "tags": ["a", 2]\n}';
+    const { sourceMap } = tryParseJson(content, { sourceMap: true });
+
+    expect([...sourceMap!.keys()]).toEqual([
+      "",
+      "/name",
+      "/tags",
+      "/tags/0",
+      "/tags/1",
+    ]);
+    expect(sourceMap!.get("/name")).toEqual({
+      start: 12,
+      end: 17,
+      line: 2,
+      column: 11,
+      endLine: 2,
+      endColumn: 16,
+    });
+    expect(sourceMap!.get("")).toMatchObject({
+      start: 0,
+      end: content.length,
+      endLine: 4,
+      endColumn: 2,
+    });
+
+    const tags = sourceMap!.get("/tags/1")!;
+    expect(content.slice(tags.start, tags.end)).toBe("2");
+    expect(tags).toMatchObject({ line: 3, column: 17 });
+  });
+
+  it("should report offsets in the original text after extraction", () => {
+    const content =
+      'Sure! Here it is:\n```json\n{"agents": [{"system_prompt": 42}]}\n```';
+    const { sourceMap } = tryParseJson(content, { sourceMap: true });
+    const location = sourceMap!.get("/agents/0/system_prompt")!;
+
+    expect(content.slice(location.start, location.end)).toBe("42");
+    expect(location).toMatchObject({ line: 3, column: 31 });
+  });
+
+  it("should account for a stripped BOM and surrounding text", () => {
+    const bom = tryParseJson('\ufeff  {"a": 1}', { sourceMap: true });
+    expect(bom.sourceMap!.get("/a")).toMatchObject({ start: 9, column: 10 });
+
+    const prose = tryParseJson('The result is {"a": 1}.', { sourceMap: true });
+    expect(prose.sourceMap!.get("")).toMatchObject({ start: 14, end: 22 });
+  });
+
+  it("should point at the values a schema rejected", () => {
+    const content = '{"agents": [{"name": "a"}, {"name": 7}]}';
+    const result = tryParseJson(content, {
+      sourceMap: true,
+      schema: schema.object({
+        agents: schema.array(schema.object({ name: schema.string() })),
+      }),
+    });
+
+    const [issue] = result.issues!;
+    const location = result.sourceMap!.get(formatJsonPointer(issue!.path))!;
+    expect(content.slice(location.start, location.end)).toBe("7");
+  });
+
+  it("should only map values kept in the result", () => {
+    const content = '{"a": {"x": 1}, "b": null, "a": {"y": 2}}';
+    const last = tryParseJson(content, {
+      sourceMap: true,
+      reviver: (_key, value) => (value === null ? undefined : value),
+    });
+    expect([...last.sourceMap!.keys()]).toEqual(["", "/a", "/a/y"]);
+
+    const first = tryParseJson(content, {
+      sourceMap: true,
+      duplicateKeys: "first",
+    });
+    expect([...first.sourceMap!.keys()]).toEqual(["", "/a", "/a/x", "/b"]);
+  });
+
+  it("should not return a source map unless asked", () => {
+    expect(tryParseJson('{"a": 1}')).not.toHaveProperty("sourceMap");
+  });
+});
+
+describe("formatJsonPointer", () => {
+  it("should escape '~' and '/' in keys", () => {
+    expect(formatJsonPointer([])).toBe("");
+    expect(formatJsonPointer(["a/b", "m~n", 0])).toBe("/a~1b/m~0n/0");
+  });
+});
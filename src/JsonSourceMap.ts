@@ -0,0 +1,83 @@
+import type { SourceSpan } from "./LenientParser.js";
+
+export interface JsonSourceLocation {
+  /** Offset of the first character of the value in the original input */
+  start: number;
+  /** Offset just past the last character of the value */
+  end: number;
+  /** 1-based line of `start` */
+  line: number;
+  /** 1-based column of `start` */
+  column: number;
+  /** 1-based line of `end` */
+  endLine: number;
+  /** 1-based column of `end` */
+  endColumn: number;
+}
+
+/**
+ * Location of every value in the parsed result, keyed by JSON Pointer (for
+ * example `/agents/2/system_prompt`, or "" for the root) in source order
+ */
+export type JsonSourceMap = Map<string, JsonSourceLocation>;
+
+/**
+ * Add line and column numbers to the spans recorded by the parser
+ */
+export function buildSourceMap(
+  content: string,
+  spans: Map<string, SourceSpan>
+): JsonSourceMap {
+  const lineStarts = findLineStarts(content);
+  const map: JsonSourceMap = new Map();
+
+  for (const [pointer, { start, end }] of spans) {
+    const from = position(lineStarts, start);
+    const to = position(lineStarts, end);
+    map.set(pointer, {
+      start,
+      end,
+      line: from.line,
+      column: from.column,
+      endLine: to.line,
+      endColumn: to.column,
+    });
+  }
+
+  return map;
+}
+
+/**
+ * Offsets where each line begins, treating `\r\n`, `\n` and a lone `\r` as
+ * line breaks the way error locations do
+ */
+export function findLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === "\n" || (char === "\r" && content[i + 1] !== "\n")) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Find the 1-based line and column of an offset by binary search
+ */
+export function position(
+  lineStarts: number[],
+  offset: number
+): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low]! + 1 };
+}
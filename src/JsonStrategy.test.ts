@@ -0,0 +1,252 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { parseJson, tryParseJson } from "./JsonParser.js";
+import { lintJson } from "./JsonLint.js";
+import {
+  listStrategies,
+  registerStrategy,
+  unregisterStrategy,
+  type JsonRepairStrategy,
+} from "./JsonStrategy.js";
+
+/** Drop an "Assistant:" prefix before the response */
+const stripRole: JsonRepairStrategy = {
+  name: "strip-role",
+  rewrite: (text) => {
+    const match = /^\s*Assistant:\s*/.exec(text);
+    return match ? [{ offset: 0, length: match[0].length, content: "" }] : [];
+  },
+};
+
+const PYTHON_CONSTANTS: Record<string, string> = {
+  True: "true",
+  False: "false",
+  None: "null",
+};
+
+/** Replace the Python constants outside of strings */
+const pythonConstants: JsonRepairStrategy = {
+  name: "python-constants",
+  rewrite: (text) =>
+    [...text.matchAll(/"(?:[^"\\]|\\.)*"|\b(?:True|False|None)\b/g)]
+      .filter(([match]) => !match.startsWith('"'))
+      .map((match) => ({
+        offset: match.index,
+        length: match[0].length,
+        content: PYTHON_CONSTANTS[match[0]]!,
+      })),
+};
+
+describe("repair strategies", () => {
+  afterEach(() => {
+    unregisterStrategy(stripRole.name);
+    unregisterStrategy(pythonConstants.name);
+  });
+
+  it("should list the built-in strategies of each mode", () => {
+    expect(listStrategies("lenient")).toEqual([
+      "bom",
+      "comments",
+      "trailing-commas",
+      "single-quotes",
+      "special-numbers",
+      "control-characters",
+      "code-blocks",
+      "extraction",
+    ]);
+    expect(listStrategies("json5")).toContain("unquoted-keys");
+    expect(listStrategies("json5")).not.toContain("control-characters");
+    expect(listStrategies("strict")).toEqual([]);
+  });
+
+  it("should run registered rewrites and report each edit", () => {
+    registerStrategy(pythonConstants, { before: "comments" });
+    const content = '{"ok": True, "v": None, "s": "None"} // done';
+    const result = tryParseJson(content, { report: true });
+
+    expect(result.data).toEqual({ ok: true, v: null, s: "None" });
+    expect(result.report?.repairs).toEqual([
+      {
+        kind: "rewrite",
+        offset: 7,
+        line: 1,
+        column: 8,
+        before: "True",
+        after: "true",
+        strategy: "python-constants",
+      },
+      {
+        kind: "rewrite",
+        offset: 18,
+        line: 1,
+        column: 19,
+        before: "None",
+        after: "null",
+        strategy: "python-constants",
+      },
+      {
+        kind: "comment",
+        offset: 37,
+        line: 1,
+        column: 38,
+        before: "// done",
+        after: "",
+        strategy: "comments",
+      },
+    ]);
+    expect(listStrategies().indexOf("python-constants")).toBe(1);
+  });
+
+  it("should locate errors and values in the original content", () => {
+    registerStrategy(stripRole);
+    const result = tryParseJson('Assistant: {"a": 1 "b": 2}');
+    expect(result.parseError).toMatchObject({ offset: 19, column: 20 });
+
+    const parsed = tryParseJson('Assistant:\n{"a": [1, 2]}', {
+      sourceMap: true,
+      report: true,
+    });
+    expect(parsed.sourceMap?.get("/a")).toMatchObject({
+      start: 17,
+      end: 23,
+      line: 2,
+      column: 7,
+    });
+    expect(parsed.report).toMatchObject({
+      repairs: [{ kind: "rewrite", before: "Assistant:\n", after: "" }],
+      discardedLeadingText: false,
+    });
+  });
+
+  it("should run rewrites in pipeline order", () => {
+    const wrap: JsonRepairStrategy = {
+      name: "wrap",
+      rewrite: (text) => [
+        { offset: 0, length: 0, content: "[" },
+        { offset: text.length, length: 0, content: "]" },
+      ],
+    };
+    registerStrategy(stripRole);
+    const result = tryParseJson("Assistant: 1", {
+      strategies: ["strip-role", wrap],
+      report: true,
+    });
+
+    expect(result.data).toEqual([1]);
+    expect(
+      result.report?.repairs.map(({ offset, before, after, strategy }) => [
+        offset,
+        before,
+        after,
+        strategy,
+      ])
+    ).toEqual([
+      [0, "Assistant: ", "", "strip-role"],
+      [11, "", "[", "wrap"],
+      [12, "", "]", "wrap"],
+    ]);
+    expect(
+      tryParseJson("Assistant: 1", { strategies: [wrap, "strip-role"] }).success
+    ).toBe(false);
+  });
+
+  it("should enable and disable strategies per call", () => {
+    registerStrategy(pythonConstants, { modes: [] });
+    expect(tryParseJson("[None]").success).toBe(false);
+    expect(
+      parseJson("[None]", { enableStrategies: ["python-constants"] })
+    ).toEqual([null]);
+    expect(
+      parseJson("[None, 1,]", {
+        enableStrategies: [stripRole, pythonConstants],
+      })
+    ).toEqual([null, 1]);
+    expect(parseJson("[True]", { enableStrategies: ["python"] })).toEqual([
+      true,
+    ]);
+
+    expect(
+      tryParseJson("[1,]", { disableStrategies: ["trailing-commas"] })
+    ).toMatchObject({ success: false });
+    expect(tryParseJson("[1,]", { strategies: ["comments"] }).success).toBe(
+      false
+    );
+    expect(
+      tryParseJson("[1,]", {
+        disableStrategies: ["trailing-commas"],
+        allowTrailingCommas: true,
+      }).success
+    ).toBe(true);
+  });
+
+  it("should try candidates in pipeline order", () => {
+    const content = "Use [1, 2] or:\n```json\n[3]\n```";
+    expect(parseJson(content)).toEqual([3]);
+    expect(
+      parseJson(content, { strategies: ["extraction", "code-blocks"] })
+    ).toEqual([1, 2]);
+    expect(
+      tryParseJson(content, {
+        disableStrategies: ["code-blocks", "extraction"],
+      }).success
+    ).toBe(false);
+  });
+
+  it("should accept custom locating strategies", () => {
+    const lastLine: JsonRepairStrategy = {
+      name: "last-line",
+      locate: (text) => [
+        { start: text.lastIndexOf("\n") + 1, end: text.length },
+      ],
+    };
+    const content = 'Thinking {about it}\n["answer"]';
+    expect(parseJson(content, { enableStrategies: [lastLine] })).toEqual([
+      "answer",
+    ]);
+    expect(
+      tryParseJson(content, {
+        strategies: [lastLine],
+        report: true,
+      }).report?.repairs
+    ).toMatchObject([{ kind: "leading-text", strategy: "last-line" }]);
+  });
+
+  it("should apply strategies to strict mode only when listed", () => {
+    expect(tryParseJson("[1,]", { mode: "strict" }).success).toBe(false);
+    expect(
+      parseJson("[1,]", { mode: "strict", strategies: ["trailing-commas"] })
+    ).toEqual([1]);
+  });
+
+  it("should report rewrites when linting", () => {
+    registerStrategy(pythonConstants);
+    expect(lintJson("[False]").issues).toEqual([
+      {
+        kind: "rewrite",
+        message: "Text changed by a repair strategy",
+        offset: 1,
+        line: 1,
+        column: 2,
+        text: "False",
+      },
+    ]);
+  });
+
+  it("should reject unknown and duplicate strategies", () => {
+    expect(() => parseJson("[1]", { strategies: ["missing"] })).toThrow(
+      'Unknown repair strategy "missing"'
+    );
+    expect(
+      tryParseJson("[1]", { disableStrategies: ["missing"] })
+    ).toMatchObject({
+      success: false,
+      error: 'Unknown repair strategy "missing"',
+    });
+    expect(() => registerStrategy({ name: "comments" })).toThrow(
+      "already registered"
+    );
+    expect(() => registerStrategy(stripRole, { after: "missing" })).toThrow(
+      'Unknown repair strategy "missing"'
+    );
+    expect(unregisterStrategy("missing")).toBe(false);
+  });
+});
@@ -0,0 +1,415 @@
+import type { JsonEdit } from "./JsonEditor.js";
+import type { JsonParseMode, JsonParseOptions } from "./JsonParser.js";
+import { JsonParseError } from "./JsonParseError.js";
+import { findCodeFences, jsonCodeFences, type CodeFence } from "./Markdown.js";
+
+/**
+ * Syntax a strategy can have the grammar accept, named after the `allow*`
+ * options; `bom` skips a leading byte order mark
+ */
+export type JsonGrammarFeature =
+  | "bom"
+  | "comments"
+  | "trailingCommas"
+  | "singleQuotes"
+  | "unquotedKeys"
+  | "nan"
+  | "infinity"
+  | "controlCharacters"
+  | "pythonLiterals"
+  | "javascriptLiterals"
+  | "innerQuotes"
+  | "missingSeparators";
+
+/**
+ * A range of the text that may hold the JSON value
+ */
+export interface JsonCandidate {
+  start: number;
+  end: number;
+  /** Accept text after the value instead of requiring it to fill the range */
+  allowTrailingText?: boolean;
+}
+
+/**
+ * One named step of the repair pipeline `parseJson` runs on content that is
+ * not standard JSON. The rewrites of every strategy run first, in pipeline
+ * order; the lenient grammar then reads the result with the features of
+ * every strategy enabled, and when that fails the candidates are tried in
+ * pipeline order.
+ */
+export interface JsonRepairStrategy {
+  /**
+   * Unique name, used to enable, disable and order strategies and to label
+   * their repairs
+   */
+  name: string;
+  /** Syntax the grammar accepts while the strategy runs */
+  features?: JsonGrammarFeature[];
+  /**
+   * Edit the text before it is parsed; offsets refer to the text given and
+   * edits may not overlap. Each edit is listed in the repair report.
+   */
+  rewrite?: (text: string) => JsonEdit[];
+  /** Ranges of the text to try, in order, when the whole text does not parse */
+  locate?: (text: string, options: JsonParseOptions) => JsonCandidate[];
+}
+
+export interface JsonStrategyRegistration {
+  /** Insert before the strategy with this name instead of at the end */
+  before?: string;
+  /** Insert after the strategy with this name instead of at the end */
+  after?: string;
+  /**
+   * Modes whose default pipeline runs the strategy; lenient and json5 by
+   * default. With an empty list it only runs when a call enables it.
+   */
+  modes?: JsonParseMode[];
+}
+
+/**
+ * An edit made by a rewrite, located in the original content
+ */
+export interface RewriteEdit {
+  strategy: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/**
+ * The content after every rewrite of the pipeline
+ */
+export interface RewrittenContent {
+  text: string;
+  /** Every edit made, in pipeline order and then source order */
+  edits: RewriteEdit[];
+  /**
+   * Map an offset in `text` back to the content; an offset inside rewritten
+   * text maps to the start or end of the edit, as `bias` says
+   */
+  toContent(offset: number, bias: "start" | "end"): number;
+}
+
+interface Registered {
+  strategy: JsonRepairStrategy;
+  modes: JsonParseMode[];
+}
+
+const LENIENT_MODES: JsonParseMode[] = ["lenient", "json5"];
+
+/**
+ * The strategies every pipeline is built from, in order
+ */
+const registry: Registered[] = [
+  { strategy: { name: "bom", features: ["bom"] }, modes: LENIENT_MODES },
+  {
+    strategy: { name: "comments", features: ["comments"] },
+    modes: LENIENT_MODES,
+  },
+  {
+    strategy: { name: "trailing-commas", features: ["trailingCommas"] },
+    modes: LENIENT_MODES,
+  },
+  {
+    strategy: { name: "single-quotes", features: ["singleQuotes"] },
+    modes: LENIENT_MODES,
+  },
+  {
+    strategy: { name: "special-numbers", features: ["nan", "infinity"] },
+    modes: LENIENT_MODES,
+  },
+  // JSON5 strings may not contain raw line breaks
+  {
+    strategy: { name: "control-characters", features: ["controlCharacters"] },
+    modes: ["lenient"],
+  },
+  {
+    strategy: { name: "unquoted-keys", features: ["unquotedKeys"] },
+    modes: ["json5"],
+  },
+  // The heuristic recoveries and dialects only run when a call asks for them
+  {
+    strategy: { name: "inner-quotes", features: ["innerQuotes"] },
+    modes: [],
+  },
+  {
+    strategy: { name: "separators", features: ["missingSeparators"] },
+    modes: [],
+  },
+  {
+    strategy: {
+      name: "python",
+      features: [
+        "pythonLiterals",
+        "singleQuotes",
+        "trailingCommas",
+        "nan",
+        "infinity",
+      ],
+    },
+    modes: [],
+  },
+  {
+    strategy: {
+      name: "javascript",
+      features: [
+        "javascriptLiterals",
+        "comments",
+        "trailingCommas",
+        "singleQuotes",
+        "unquotedKeys",
+        "nan",
+        "infinity",
+      ],
+    },
+    modes: [],
+  },
+  {
+    strategy: { name: "code-blocks", locate: locateCodeBlocks },
+    modes: LENIENT_MODES,
+  },
+  {
+    strategy: { name: "extraction", locate: locateBrackets },
+    modes: LENIENT_MODES,
+  },
+];
+
+/**
+ * Add a strategy to the registry, so calls can enable it by name and the
+ * default pipelines of its modes run it
+ * @throws Error if the name is taken or `before`/`after` names no strategy
+ */
+export function registerStrategy(
+  strategy: JsonRepairStrategy,
+  registration: JsonStrategyRegistration = {}
+): void {
+  const { before, after, modes = LENIENT_MODES } = registration;
+  if (findRegistered(strategy.name) !== -1) {
+    throw new Error(`Repair strategy "${strategy.name}" is already registered`);
+  }
+
+  let index = registry.length;
+  const anchor = before ?? after;
+  if (anchor !== undefined) {
+    const found = findRegistered(anchor);
+    if (found === -1) throw new Error(`Unknown repair strategy "${anchor}"`);
+    index = before !== undefined ? found : found + 1;
+  }
+
+  registry.splice(index, 0, { strategy, modes: [...modes] });
+}
+
+/**
+ * Remove a strategy, including a built-in one, from the registry
+ * @returns Whether the strategy was registered
+ */
+export function unregisterStrategy(name: string): boolean {
+  const index = findRegistered(name);
+  if (index === -1) return false;
+  registry.splice(index, 1);
+  return true;
+}
+
+/**
+ * Names of the registered strategies in pipeline order, or only those the
+ * default pipeline of `mode` runs
+ */
+export function listStrategies(mode?: JsonParseMode): string[] {
+  return registry
+    .filter(({ modes }) => mode === undefined || modes.includes(mode))
+    .map(({ strategy }) => strategy.name);
+}
+
+/**
+ * The pipeline for a call: the default pipeline of the mode, or the
+ * `strategies` option, with the strategies `repairQuotes`,
+ * `repairSeparators` and `dialect` ask for and `enableStrategies` added and
+ * `disableStrategies` removed
+ * @throws Error if an option names a strategy that is not registered
+ */
+export function resolveStrategies(
+  options: JsonParseOptions
+): JsonRepairStrategy[] {
+  const {
+    mode = "lenient",
+    dialect,
+    repairQuotes = false,
+    repairSeparators = false,
+    strategies,
+    enableStrategies = [],
+    disableStrategies = [],
+  } = options;
+  for (const name of disableStrategies) lookupStrategy(name);
+
+  const enabled = new Set(
+    [
+      ...(repairQuotes ? ["inner-quotes"] : []),
+      ...(repairSeparators ? ["separators"] : []),
+      ...(dialect ? [dialect] : []),
+      ...enableStrategies,
+    ].map((entry) =>
+      typeof entry === "string" ? lookupStrategy(entry) : entry
+    )
+  );
+  const pipeline = strategies
+    ? strategies.map((entry) =>
+        typeof entry === "string" ? lookupStrategy(entry) : entry
+      )
+    : registry
+        .filter(
+          ({ strategy, modes }) => enabled.has(strategy) || modes.includes(mode)
+        )
+        .map(({ strategy }) => strategy);
+  for (const strategy of enabled) {
+    if (!pipeline.includes(strategy)) pipeline.push(strategy);
+  }
+
+  return pipeline.filter(({ name }) => !disableStrategies.includes(name));
+}
+
+/**
+ * The first strategy of the pipeline enabling a feature, if any does
+ */
+export function strategyWithFeature(
+  strategies: JsonRepairStrategy[],
+  feature: JsonGrammarFeature
+): JsonRepairStrategy | undefined {
+  return strategies.find(({ features = [] }) => features.includes(feature));
+}
+
+/**
+ * Run the rewrites of the pipeline in order, each on the output of the
+ * previous one
+ */
+export function rewriteContent(
+  content: string,
+  strategies: JsonRepairStrategy[]
+): RewrittenContent {
+  const stages: JsonEdit[][] = [];
+  const edits: RewriteEdit[] = [];
+  let text = content;
+
+  const toContent = (offset: number, bias: "start" | "end", upTo: number) =>
+    stages
+      .slice(0, upTo)
+      .reduceRight((mapped, stage) => mapBack(stage, mapped, bias), offset);
+
+  for (const { name, rewrite } of strategies) {
+    const stage = [...(rewrite?.(text) ?? [])].sort(
+      (a, b) => a.offset - b.offset
+    );
+    if (stage.length === 0) continue;
+
+    for (const { offset, length, content: replacement } of stage) {
+      edits.push({
+        strategy: name,
+        start: toContent(offset, "start", stages.length),
+        end: toContent(offset + length, "end", stages.length),
+        replacement,
+      });
+    }
+    text = stage.reduceRight(
+      (result, { offset, length, content: replacement }) =>
+        result.slice(0, offset) + replacement + result.slice(offset + length),
+      text
+    );
+    stages.push(stage);
+  }
+
+  return {
+    text,
+    edits,
+    toContent: (offset, bias) => toContent(offset, bias, stages.length),
+  };
+}
+
+/**
+ * Map an offset in the output of sorted edits back to their input
+ */
+function mapBack(
+  edits: JsonEdit[],
+  offset: number,
+  bias: "start" | "end"
+): number {
+  let shift = 0;
+  for (const { offset: start, length, content } of edits) {
+    const from = start + shift;
+    const to = from + content.length;
+    // The end of a value just before the edit, or the start of a replacement
+    if (offset < from || (offset === from && (bias === "end" || content))) {
+      return offset - shift;
+    }
+    if (offset < to || (offset === to && bias === "end")) {
+      return bias === "start" ? start : start + length;
+    }
+    shift += content.length - length;
+  }
+  return offset - shift;
+}
+
+function findRegistered(name: string): number {
+  return registry.findIndex(({ strategy }) => strategy.name === name);
+}
+
+function lookupStrategy(name: string): JsonRepairStrategy {
+  const registered = registry[findRegistered(name)];
+  if (!registered) throw new Error(`Unknown repair strategy "${name}"`);
+  return registered.strategy;
+}
+
+/**
+ * The content of the selected JSON code block, or of every one in order
+ * when no block was selected, preferring blocks tagged as JSON. Fails when
+ * the selected block does not exist, rather than reading another value.
+ */
+function locateCodeBlocks(
+  text: string,
+  { codeBlock }: JsonParseOptions
+): JsonCandidate[] {
+  const candidates = jsonCodeFences(findCodeFences(text));
+  const selected =
+    codeBlock === undefined
+      ? candidates
+      : [selectCodeBlock(candidates, codeBlock)];
+
+  return selected.map((fence) => {
+    if (!fence) {
+      throw JsonParseError.at(
+        codeBlock === "last"
+          ? "No JSON code block to select"
+          : `No JSON code block at index ${codeBlock} among ${candidates.length}`,
+        text,
+        0,
+        "raw",
+        "code block",
+        "no-code-block"
+      );
+    }
+    return { start: fence.contentStart, end: fence.contentEnd };
+  });
+}
+
+/**
+ * The code block at a `codeBlock` index counted from 0, or the last one;
+ * undefined when there is no such block, including for a negative index
+ */
+export function selectCodeBlock(
+  fences: CodeFence[],
+  codeBlock: number | "last"
+): CodeFence | undefined {
+  if (codeBlock === "last") return fences.at(-1);
+  return codeBlock >= 0 ? fences[codeBlock] : undefined;
+}
+
+/**
+ * The value at the first `{`, then the value at the first `[`
+ */
+function locateBrackets(text: string): JsonCandidate[] {
+  return ["{", "["].flatMap((bracket) => {
+    const start = text.indexOf(bracket);
+    return start === -1
+      ? []
+      : [{ start, end: text.length, allowTrailingText: true }];
+  });
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  createJsonTransform,
+  createJsonTransformStream,
+  type JsonStreamOptions,
+} from "./JsonStreams.js";
+import { JsonParseError } from "./JsonParseError.js";
+import { JsonValidationError, schema } from "./Schema.js";
+import { expectLinearTime } from "./testTiming.js";
+
+/** Split text into chunks of a few characters to cross every boundary */
+function split(text: string, size = 3): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function collect(
+  chunks: Array<string | Uint8Array>,
+  options?: JsonStreamOptions
+): Promise<unknown[]> {
+  const values: unknown[] = [];
+  await pipeline(
+    Readable.from(chunks),
+    createJsonTransform(options),
+    async (source: AsyncIterable<unknown>) => {
+      for await (const value of source) values.push(value);
+    }
+  );
+  return values;
+}
+
+async function collectWeb(
+  chunks: Array<string | Uint8Array>,
+  options?: JsonStreamOptions
+): Promise<unknown[]> {
+  const values: unknown[] = [];
+  const readable = ReadableStream.from(chunks).pipeThrough(
+    createJsonTransformStream(options)
+  );
+  for await (const value of readable) values.push(value);
+  return values;
+}
+
+const dump = `{
+  "version": 2,
+  // exported agents
+  "agents": [
+    {"name": "a", "tags": ["x", "]"], "note": "has, commas"},
+    {'name': 'b', "nested": {"agents": [1, 2]}},
+    /* retired */ {"name": "c",},
+  ],
+  "count": 3
+}`;
+
+describe("createJsonTransform", () => {
+  it("should emit each element of the selected array", async () => {
+    expect(await collect(split(dump), { path: ["agents"] })).toEqual([
+      { name: "a", tags: ["x", "]"], note: "has, commas" },
+      { name: "b", nested: { agents: [1, 2] } },
+      { name: "c" },
+    ]);
+  });
+
+  it("should emit the elements of a root array", async () => {
+    expect(
+      await collect(split('[1, [2, 3], null, "four"]'), { path: [] })
+    ).toEqual([1, [2, 3], "four"]);
+  });
+
+  it("should emit whole root values without a path", async () => {
+    expect(await collect(split('{"a": 1}\n{"b": 2}\n'))).toEqual([
+      { a: 1 },
+      { b: 2 },
+    ]);
+  });
+
+  it("should follow paths through nested objects and arrays", async () => {
+    const text = '{"data": {"items": [[1], [2, 3]]}}';
+    expect(await collect(split(text), { path: ["data", "items", 1] })).toEqual([
+      2, 3,
+    ]);
+    expect(await collect([text], { path: ["missing"] })).toEqual([]);
+  });
+
+  it("should decode bytes split inside characters", async () => {
+    const bytes = new TextEncoder().encode('{"agents": ["héllo", "日本"]}');
+    const chunks = Array.from(bytes, (byte) => Uint8Array.of(byte));
+    expect(await collect(chunks, { path: ["agents"] })).toEqual([
+      "héllo",
+      "日本",
+    ]);
+  });
+
+  it("should validate each element against the schema", async () => {
+    const agent = schema.object({ name: schema.string() });
+    await expect(
+      collect(split(dump), { path: ["agents"], schema: agent })
+    ).resolves.toHaveLength(3);
+    await expect(
+      collect(['{"agents": [{"name": 1}]}'], {
+        path: ["agents"],
+        schema: agent,
+      })
+    ).rejects.toThrow(JsonValidationError);
+  });
+
+  it("should fail on an element that does not parse", async () => {
+    await expect(
+      collect(['{"agents": [{"name": "a"}, {"name": @}]}'], {
+        path: ["agents"],
+      })
+    ).rejects.toThrow(JsonParseError);
+  });
+
+  it("should fail on an element longer than maxLength", async () => {
+    const large = JSON.stringify({ agents: [1, "x".repeat(100), 2] });
+    await expect(
+      collect(split(large, 16), { path: ["agents"], maxLength: 50 })
+    ).rejects.toMatchObject({ code: "max-length" });
+  });
+
+  it("should fail on a truncated document unless asked to repair it", async () => {
+    const text = '{"agents": [{"name": "a"}, {"name": "b"';
+    await expect(collect([text], { path: ["agents"] })).rejects.toThrow(
+      JsonParseError
+    );
+    expect(
+      await collect([text], { path: ["agents"], repairTruncated: true })
+    ).toEqual([{ name: "a" }, { name: "b" }]);
+  });
+
+  it("should apply maxLength to each element rather than the document", async () => {
+    const element = JSON.stringify({ id: 1, text: "y".repeat(200) });
+    const chunks = function* () {
+      yield '{"agents": [';
+      for (let i = 0; i < 2000; i++) yield (i ? "," : "") + element;
+      yield "]}";
+    };
+    let count = 0;
+    await pipeline(
+      Readable.from(chunks()),
+      createJsonTransform({ path: ["agents"], maxLength: 1000 }),
+      async (source: AsyncIterable<unknown>) => {
+        for await (const _ of source) count++;
+      }
+    );
+    expect(count).toBe(2000);
+  });
+
+  it("should emit large root values from small chunks in linear time", async () => {
+    await expectLinearTime(async (size) => {
+      const value = {
+        agents: Array.from({ length: size }, (_, id) => ({
+          id,
+          prompt: `Say "hi" to {agent ${id}} [now]`,
+        })),
+      };
+      const text = JSON.stringify(value);
+      expect(await collect(split(`${text}\n${text}`, 512))).toEqual([
+        value,
+        value,
+      ]);
+      expect(await collectWeb(split(text, 512))).toEqual([value]);
+    }, 5000);
+  });
+});
+
+describe("createJsonTransformStream", () => {
+  it("should emit each element of the selected array", async () => {
+    expect(await collectWeb(split(dump), { path: ["agents"] })).toHaveLength(3);
+  });
+
+  it("should keep null elements", async () => {
+    expect(await collectWeb(["[1, null, 2]"], { path: [] })).toEqual([
+      1,
+      null,
+      2,
+    ]);
+  });
+
+  it("should accept bytes", async () => {
+    const bytes = new TextEncoder().encode('{"a": "é"} [1]');
+    expect(await collectWeb([bytes.slice(0, 8), bytes.slice(8)])).toEqual([
+      { a: "é" },
+      [1],
+    ]);
+  });
+
+  it("should error the stream on a failure", async () => {
+    await expect(collectWeb(['[1, {"a": }]'], { path: [] })).rejects.toThrow(
+      JsonParseError
+    );
+  });
+});
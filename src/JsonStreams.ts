@@ -0,0 +1,353 @@
+import { Transform } from "node:stream";
+import { parseLenient } from "./LenientParser.js";
+import { JsonParseError } from "./JsonParseError.js";
+import {
+  buildFailedResult,
+  checkLength,
+  resolveGrammar,
+  tryParseJson,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import type { JsonPath } from "./JsonPath.js";
+import {
+  createSequenceReader,
+  type JsonRecord,
+  type RecordReader,
+} from "./JsonSequence.js";
+import { JsonValidationError } from "./Schema.js";
+
+export interface JsonStreamOptions extends JsonParseOptions {
+  /**
+   * Path of the array whose elements are emitted one by one as they
+   * complete, such as `["agents"]`, or `[]` for a root array. By default
+   * every root value is emitted whole. The other options, including
+   * `schema` and `maxLength`, apply to each emitted value.
+   */
+  path?: JsonPath;
+}
+
+/**
+ * Create a Node `Transform` that takes text or bytes and pushes parsed
+ * values in object mode. With a `path`, only the current element of the
+ * selected array is held in memory, so arbitrarily large documents can be
+ * processed. `null` values are skipped, as object mode streams end at `null`.
+ * The stream fails with the `JsonParseError` or `JsonValidationError` of
+ * the first value that does not parse or validate.
+ * @param options - Parsing options and the path of the array to emit
+ */
+export function createJsonTransform(
+  options: JsonStreamOptions = {}
+): Transform {
+  const reader = createRecordReader(options);
+  const decoder = new TextDecoder();
+
+  return new Transform({
+    readableObjectMode: true,
+    transform(chunk: Uint8Array, _encoding, callback) {
+      try {
+        const text = decoder.decode(chunk, { stream: true });
+        emitValues(reader.push(text), (value) => {
+          if (value !== null) this.push(value);
+        });
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        const push = (value: unknown): void => {
+          if (value !== null) this.push(value);
+        };
+        emitValues(reader.push(decoder.decode()), push);
+        emitValues(reader.end(), push);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Create a WHATWG `TransformStream` that takes text or bytes and enqueues
+ * parsed values, as `createJsonTransform` does for Node streams. `null`
+ * values are kept.
+ * @param options - Parsing options and the path of the array to emit
+ */
+export function createJsonTransformStream<T = any>(
+  options: JsonStreamOptions = {}
+): TransformStream<string | Uint8Array, T> {
+  const reader = createRecordReader(options);
+  const decoder = new TextDecoder();
+
+  return new TransformStream<string | Uint8Array, T>({
+    transform(chunk, controller) {
+      const text =
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+      emitValues(reader.push(text), (value) => controller.enqueue(value as T));
+    },
+    flush(controller) {
+      const enqueue = (value: unknown): void => controller.enqueue(value as T);
+      emitValues(reader.push(decoder.decode()), enqueue);
+      emitValues(reader.end(), enqueue);
+    },
+  });
+}
+
+/**
+ * Hand the value of every record on, throwing at the first failed one
+ */
+function emitValues(
+  records: Iterable<JsonRecord>,
+  emit: (value: unknown) => void
+): void {
+  for (const record of records) {
+    if (!record.success) {
+      throw (
+        record.parseError ??
+        (record.issues
+          ? new JsonValidationError(record.issues)
+          : new Error(record.error))
+      );
+    }
+    emit(record.data);
+  }
+}
+
+function createRecordReader(options: JsonStreamOptions): RecordReader {
+  const { path, ...parseOptions } = options;
+  return path
+    ? createElementReader(path, parseOptions)
+    : createSequenceReader(parseOptions);
+}
+
+interface Frame {
+  type: "object" | "array";
+  /** Whether the container is the selected array or one of its ancestors */
+  onPath: boolean;
+  /** Key or index of the member being read */
+  segment: string | number | undefined;
+  /** Whether an object expects a key next */
+  expectKey: boolean;
+}
+
+interface PendingElement {
+  /** Text of the element read from earlier chunks */
+  text: string;
+  line: number;
+  offset: number;
+}
+
+/** Grammar for reading the keys on the path, whatever their quotes */
+const KEY_GRAMMAR = resolveGrammar({ mode: "json5" });
+
+/**
+ * Reader that scans the document without building it, tracking only the
+ * containers around the current position, and parses each element of the
+ * array at `path` on its own once its closing comma or bracket arrives
+ */
+function createElementReader(
+  path: JsonPath,
+  options: JsonParseOptions
+): RecordReader {
+  const { allowComments = options.mode !== "strict" } = options;
+  const stack: Frame[] = [];
+  let state: "value" | "string" | "line-comment" | "block-comment" = "value";
+  let quote = "";
+  let escaped = false;
+  /** A '/' that may start a comment */
+  let slash = false;
+  /** A '*' that may end a block comment */
+  let star = false;
+  /** Raw text of a key on the path being read */
+  let key: string | undefined;
+  let element: PendingElement | undefined;
+  /** Whether an element that broke `maxLength` is being skipped */
+  let skipping = false;
+  let line = 1;
+  let lineStart = 0;
+  /** Offset in the input of the chunk being scanned */
+  let offset = 0;
+
+  const inTarget = (): boolean => {
+    const top = stack.at(-1);
+    return (
+      top !== undefined &&
+      top.type === "array" &&
+      top.onPath &&
+      stack.length === path.length + 1
+    );
+  };
+
+  const open = (type: Frame["type"]): void => {
+    const parent = stack.at(-1);
+    const depth = stack.length;
+    const onPath =
+      !parent ||
+      (parent.onPath &&
+        depth <= path.length &&
+        parent.segment === path[depth - 1]);
+    stack.push({
+      type,
+      onPath,
+      segment: type === "array" ? 0 : undefined,
+      expectKey: type === "object",
+    });
+  };
+
+  const record = (
+    text: string,
+    { line, offset }: PendingElement
+  ): JsonRecord => ({ ...tryParseJson(text, options), line, offset });
+
+  return {
+    *push(chunk) {
+      let from = 0;
+
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i]!;
+        if (char === "\n") {
+          line++;
+          lineStart = offset + i + 1;
+        }
+
+        if (state === "string") {
+          if (key !== undefined) key += char;
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === quote) {
+            state = "value";
+          }
+          continue;
+        }
+        if (state === "line-comment") {
+          if (char === "\n" || char === "\r") state = "value";
+          continue;
+        }
+        if (state === "block-comment") {
+          if (star && char === "/") state = "value";
+          star = char === "*";
+          continue;
+        }
+
+        if (slash) {
+          slash = false;
+          if (char === "/") {
+            state = "line-comment";
+            continue;
+          }
+          if (char === "*") {
+            state = "block-comment";
+            star = false;
+            continue;
+          }
+        }
+        if (char === "/" && allowComments) {
+          slash = true;
+          continue;
+        }
+        if (char === " " || char === "\n" || char === "\r" || char === "\t") {
+          continue;
+        }
+
+        const top = stack.at(-1);
+        if (char === "," || char === "]" || char === "}") {
+          if (inTarget()) {
+            if (element) {
+              yield record(element.text + chunk.slice(from, i), element);
+              element = undefined;
+            }
+            skipping = false;
+          }
+          if (char !== ",") {
+            stack.pop();
+          } else if (top?.type === "array") {
+            top.segment = (top.segment as number) + 1;
+          } else if (top) {
+            top.expectKey = true;
+            top.segment = undefined;
+          }
+          continue;
+        }
+
+        if (top?.type === "object" && top.expectKey) {
+          if (char === ":") {
+            top.expectKey = false;
+            top.segment = key === undefined ? undefined : decodeKey(key);
+            key = undefined;
+          } else if (top.onPath) {
+            key = (key ?? "") + char;
+          }
+          if (char === '"' || char === "'") {
+            state = "string";
+            quote = char;
+          }
+          continue;
+        }
+
+        // The first character of a value
+        if (!element && !skipping && inTarget() && !/\s/.test(char)) {
+          element = { text: "", line, offset: offset + i };
+          from = i;
+        }
+        if (char === '"' || char === "'") {
+          state = "string";
+          quote = char;
+        } else if (char === "{") {
+          open("object");
+        } else if (char === "[") {
+          open("array");
+        }
+      }
+
+      if (element) {
+        element.text += chunk.slice(from);
+        try {
+          checkLength(element.text, options);
+        } catch (error) {
+          const { line, offset } = element;
+          yield { ...buildFailedResult(error), line, offset };
+          element = undefined;
+          skipping = true;
+        }
+      }
+      offset += chunk.length;
+    },
+
+    *end() {
+      if (element) {
+        // The document was cut off inside an element
+        yield record(element.text, element);
+      } else if (stack.length > 0 && !options.repairTruncated) {
+        const error = new JsonParseError({
+          code: "syntax",
+          reason: "Unexpected end of input",
+          offset,
+          line,
+          column: offset - lineStart + 1,
+          stage: "raw",
+          expected: stack.at(-1)!.type === "object" ? "'}'" : "']'",
+          excerpt: "",
+        });
+        yield { ...buildFailedResult(error), line, offset };
+      }
+    },
+  };
+}
+
+/**
+ * Read the name of a key from its source text
+ */
+function decodeKey(raw: string): string {
+  if (raw[0] !== '"' && raw[0] !== "'") return raw;
+  try {
+    return String(parseLenient(raw, KEY_GRAMMAR, "cleaned").value);
+  } catch {
+    return raw;
+  }
+}
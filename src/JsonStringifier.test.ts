@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import { stringifyJson } from "./JsonStringifier.js";
+import { parseJson, tryParseJson } from "./JsonParser.js";
+
+describe("stringifyJson", () => {
+  it("should match JSON.stringify by default", () => {
+    const value = {
+      name: "Ada",
+      tags: ["a", 1, true, null],
+      nested: { empty: {}, list: [] },
+      date: new Date(Date.UTC(2024, 4, 1)),
+      skipped: undefined,
+      fn: () => 1,
+      holes: [undefined, () => 1, , 2],
+      quote: 'say "hi"\n',
+    };
+
+    expect(stringifyJson(value)).toBe(JSON.stringify(value));
+    expect(stringifyJson(value, { indent: 2 })).toBe(
+      JSON.stringify(value, null, 2)
+    );
+    expect(stringifyJson(value, { indent: "\t" })).toBe(
+      JSON.stringify(value, null, "\t")
+    );
+  });
+
+  it("should write NaN and Infinity as null unless enabled", () => {
+    const value = [NaN, Infinity, -Infinity, -0];
+    expect(stringifyJson(value)).toBe("[null,null,null,0]");
+    expect(stringifyJson(value, { nan: true, infinity: true })).toBe(
+      "[NaN,Infinity,-Infinity,0]"
+    );
+  });
+
+  it("should write bigint only when enabled", () => {
+    const value = { id: 12345678901234567890n };
+    expect(() => stringifyJson(value)).toThrow(TypeError);
+    expect(stringifyJson(value, { bigint: true })).toBe(
+      '{"id":12345678901234567890}'
+    );
+    expect(
+      parseJson(stringifyJson(value, { bigint: true }), { bigint: true })
+    ).toEqual(value);
+  });
+
+  it("should quote with single quotes", () => {
+    expect(
+      stringifyJson({ "it's": 'a "b" \\ c' }, { singleQuotes: true })
+    ).toBe(String.raw`{'it\'s':'a "b" \\ c'}`);
+  });
+
+  it("should leave identifier keys unquoted", () => {
+    expect(
+      stringifyJson(
+        { name: 1, $id: 2, "two words": 3, "1st": 4 },
+        { unquotedKeys: true }
+      )
+    ).toBe('{name:1,$id:2,"two words":3,"1st":4}');
+  });
+
+  it("should add trailing commas to indented output", () => {
+    expect(
+      stringifyJson({ a: [1, 2] }, { indent: 2, trailingCommas: true })
+    ).toBe('{\n  "a": [\n    1,\n    2,\n  ],\n}');
+  });
+
+  it("should write JSON5 with the json5 mode", () => {
+    const text = stringifyJson(
+      { name: "x", ratio: NaN, max: Infinity },
+      { mode: "json5", indent: 2 }
+    );
+    expect(text).toBe('{\n  name: "x",\n  ratio: NaN,\n  max: Infinity,\n}');
+    expect(parseJson(text, { mode: "json5" })).toEqual({
+      name: "x",
+      ratio: NaN,
+      max: Infinity,
+    });
+  });
+
+  it("should write text that parseJson reads back in the same mode", () => {
+    const value = {
+      name: 'it\'s "x"',
+      list: [1, -0.5, [], {}, null, true],
+      nested: { "not an identifier": "\u2028\n\t" },
+    };
+    for (const mode of ["strict", "lenient", "json5"] as const) {
+      for (const indent of [0, 2]) {
+        const text = stringifyJson(value, { mode, indent });
+        expect(parseJson(text, { mode }), `${mode} ${indent}`).toEqual(value);
+      }
+    }
+    const lenient = stringifyJson(
+      { ratio: NaN, max: -Infinity, list: [1] },
+      {
+        singleQuotes: true,
+        trailingCommas: true,
+        nan: true,
+        infinity: true,
+        indent: 2,
+      }
+    );
+    expect(parseJson(lenient)).toEqual({
+      ratio: NaN,
+      max: -Infinity,
+      list: [1],
+    });
+  });
+
+  it("should sort keys alphabetically or with a comparator", () => {
+    const value = { b: 1, a: { d: 1, c: 2 } };
+    expect(stringifyJson(value, { sortKeys: true })).toBe(
+      '{"a":{"c":2,"d":1},"b":1}'
+    );
+    expect(
+      stringifyJson(value, { sortKeys: (x, y) => y.localeCompare(x) })
+    ).toBe('{"b":1,"a":{"d":1,"c":2}}');
+  });
+
+  it("should reject circular and unserializable values", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(() => stringifyJson(circular)).toThrow(/circular/);
+    expect(() => stringifyJson(undefined)).toThrow(TypeError);
+
+    const shared = { x: 1 };
+    expect(stringifyJson([shared, shared])).toBe('[{"x":1},{"x":1}]');
+  });
+});
+
+describe("comments", () => {
+  const config = [
+    "// Server settings",
+    "{",
+    "  // Where to listen",
+    '  "host": "localhost",',
+    '  "port": 8080, // default port',
+    '  "features": [',
+    '    "a", /* first */',
+    '    "b"',
+    "    // more to come",
+    "  ],",
+    '  "empty": {',
+    "    // nothing yet",
+    "  }",
+    "}",
+  ].join("\n");
+
+  it("should attach comments to the values they belong to", () => {
+    const { comments } = tryParseJson(config, { keepComments: true });
+
+    expect(comments).toEqual(
+      new Map([
+        ["", { before: ["// Server settings"] }],
+        ["/host", { before: ["// Where to listen"] }],
+        ["/port", { after: ["// default port"] }],
+        ["/features/0", { after: ["/* first */"] }],
+        ["/features", { inside: ["// more to come"] }],
+        ["/empty", { inside: ["// nothing yet"] }],
+      ])
+    );
+  });
+
+  it("should round-trip a commented config file", () => {
+    const { data, comments } = tryParseJson(config, { keepComments: true });
+    expect(stringifyJson(data, { indent: 2, comments: comments! })).toBe(
+      config
+    );
+  });
+
+  it("should keep comments with edited values", () => {
+    const { data, comments } = tryParseJson(config, { keepComments: true });
+    data.port = 9090;
+    const text = stringifyJson(data, { indent: 2, comments: comments! });
+
+    expect(text).toContain('"port": 9090, // default port');
+    expect(parseJson(text)).toEqual(data);
+  });
+
+  it("should write block comments in compact output", () => {
+    const text = stringifyJson(
+      { a: 1, b: 2 },
+      {
+        comments: new Map([
+          ["/a", { before: ["// first"], after: ["// one"] }],
+          ["", { after: ["// end"] }],
+        ]),
+      }
+    );
+
+    expect(text).toBe('{/* first */ "a":1 /* one */,"b":2} /* end */');
+    expect(parseJson(text)).toEqual({ a: 1, b: 2 });
+  });
+
+  it("should not collect comments unless asked", () => {
+    expect(tryParseJson("{} // done")).not.toHaveProperty("comments");
+  });
+});
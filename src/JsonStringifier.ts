@@ -0,0 +1,314 @@
+import type { JsonParseMode } from "./JsonParser.js";
+import type { JsonComments, JsonCommentSet } from "./JsonComments.js";
+import { formatJsonPointer } from "./JsonPath.js";
+
+export interface JsonStringifyOptions {
+  /**
+   * Dialect preset: "json5" writes unquoted keys, trailing commas, NaN and
+   * Infinity; the other modes write standard JSON. The options below override
+   * individual features.
+   */
+  mode?: JsonParseMode;
+  /**
+   * Number of spaces, or the string, to indent each level with, as for
+   * JSON.stringify; the output is compact by default
+   */
+  indent?: number | string;
+  /** Write a comma after the last member or element of indented output */
+  trailingCommas?: boolean;
+  /** Leave keys that are identifiers unquoted */
+  unquotedKeys?: boolean;
+  /** Quote strings and keys with single quotes */
+  singleQuotes?: boolean;
+  /** Write NaN as `NaN` instead of `null` */
+  nan?: boolean;
+  /** Write infinite numbers as `Infinity` and `-Infinity` instead of `null` */
+  infinity?: boolean;
+  /** Write bigint values as integers instead of throwing as JSON.stringify does */
+  bigint?: boolean;
+  /** Order object keys alphabetically, or with the comparator */
+  sortKeys?: boolean | ((a: string, b: string) => number);
+  /**
+   * Comments to write around values, keyed by JSON Pointer, such as those
+   * kept from a parsed document with `keepComments`
+   */
+  comments?: JsonComments;
+}
+
+interface Style {
+  indent: string;
+  trailingCommas: boolean;
+  unquotedKeys: boolean;
+  singleQuotes: boolean;
+  nan: boolean;
+  infinity: boolean;
+  bigint: boolean;
+  compareKeys: ((a: string, b: string) => number) | undefined;
+  comments: JsonComments | undefined;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Serialize a value as JSON or one of the lenient dialects `parseJson`
+ * reads back.
+ *
+ * Values are converted as JSON.stringify converts them: `toJSON` is called,
+ * undefined, functions and symbols are left out of objects and written as
+ * `null` in arrays.
+ * @param value - The value to serialize
+ * @param options - Dialect, layout and comments of the output
+ * @returns The serialized text
+ * @throws TypeError if the value is circular, is a bigint without the
+ * `bigint` option, or cannot be serialized at all
+ */
+export function stringifyJson(
+  value: unknown,
+  options: JsonStringifyOptions = {}
+): string {
+  const text = new JsonWriter(resolveStyle(options)).root(value);
+  if (text === undefined) {
+    throw new TypeError(`Cannot serialize ${typeof value} as JSON`);
+  }
+  return text;
+}
+
+/**
+ * Map stringify options onto the output style, applying the mode preset
+ */
+function resolveStyle(options: JsonStringifyOptions): Style {
+  const json5 = options.mode === "json5";
+  const {
+    indent = "",
+    trailingCommas = json5,
+    unquotedKeys = json5,
+    singleQuotes = false,
+    nan = json5,
+    infinity = json5,
+    bigint = false,
+    sortKeys = false,
+    comments,
+  } = options;
+
+  return {
+    indent:
+      typeof indent === "number"
+        ? " ".repeat(Math.min(10, Math.max(0, Math.floor(indent))))
+        : indent.slice(0, 10),
+    trailingCommas,
+    unquotedKeys,
+    singleQuotes,
+    nan,
+    infinity,
+    bigint,
+    compareKeys:
+      sortKeys === true
+        ? (a, b) => (a < b ? -1 : a > b ? 1 : 0)
+        : sortKeys || undefined,
+    comments,
+  };
+}
+
+/**
+ * Recursive writer keeping track of the containers being written
+ */
+class JsonWriter {
+  private readonly style: Style;
+  private readonly ancestors = new Set<object>();
+
+  constructor(style: Style) {
+    this.style = style;
+  }
+
+  root(value: unknown): string | undefined {
+    const text = this.value(value, "", "", "");
+    if (text === undefined) return undefined;
+    const comments = this.comments("");
+    return this.before(comments, "") + text + this.after(comments);
+  }
+
+  /**
+   * Write one value, or return undefined for values JSON leaves out
+   */
+  private value(
+    value: unknown,
+    key: string,
+    pointer: string,
+    indent: string
+  ): string | undefined {
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      typeof (value as { toJSON?: unknown }).toJSON === "function"
+    ) {
+      value = (value as { toJSON: (key: string) => unknown }).toJSON(key);
+    }
+    if (
+      value instanceof Number ||
+      value instanceof String ||
+      value instanceof Boolean
+    ) {
+      value = value.valueOf();
+    }
+
+    switch (typeof value) {
+      case "string":
+        return this.string(value);
+      case "number":
+        return this.number(value);
+      case "boolean":
+        return String(value);
+      case "bigint":
+        if (!this.style.bigint) {
+          throw new TypeError("Do not know how to serialize a BigInt");
+        }
+        return String(value);
+      case "object":
+        if (value === null) return "null";
+        return this.container(value, pointer, indent);
+      default:
+        return undefined;
+    }
+  }
+
+  private number(value: number): string {
+    if (Number.isNaN(value)) return this.style.nan ? "NaN" : "null";
+    if (!Number.isFinite(value)) {
+      if (!this.style.infinity) return "null";
+      return value > 0 ? "Infinity" : "-Infinity";
+    }
+    return JSON.stringify(value);
+  }
+
+  private string(value: string): string {
+    const json = JSON.stringify(value);
+    if (!this.style.singleQuotes) return json;
+    const escaped = json
+      .slice(1, -1)
+      .replace(/\\\\|\\"|'/g, (match) =>
+        match === "'" ? "\\'" : match === '\\"' ? '"' : match
+      );
+    return `'${escaped}'`;
+  }
+
+  private key(key: string): string {
+    return this.style.unquotedKeys && IDENTIFIER.test(key)
+      ? key
+      : this.string(key);
+  }
+
+  private container(value: object, pointer: string, indent: string): string {
+    if (this.ancestors.has(value)) {
+      throw new TypeError("Converting circular structure to JSON");
+    }
+    this.ancestors.add(value);
+
+    const inner = indent + this.style.indent;
+    const items: Array<{ text: string; pointer: string }> = [];
+
+    if (Array.isArray(value)) {
+      // Holes are written as null, so index rather than iterate
+      for (let index = 0; index < value.length; index++) {
+        const childPointer = pointer + formatJsonPointer([index]);
+        const element: unknown = value[index];
+        const text = this.value(element, String(index), childPointer, inner);
+        items.push({ text: text ?? "null", pointer: childPointer });
+      }
+    } else {
+      const keys = Object.keys(value);
+      if (this.style.compareKeys) keys.sort(this.style.compareKeys);
+      for (const key of keys) {
+        const childPointer = pointer + formatJsonPointer([key]);
+        const child = (value as Record<string, unknown>)[key];
+        const text = this.value(child, key, childPointer, inner);
+        if (text === undefined) continue;
+        const separator = this.style.indent ? ": " : ":";
+        items.push({
+          text: this.key(key) + separator + text,
+          pointer: childPointer,
+        });
+      }
+    }
+
+    this.ancestors.delete(value);
+    const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+    return this.layout(items, open, close, pointer, indent);
+  }
+
+  /**
+   * Join the members or elements of a container with their comments, one
+   * per line when indenting
+   */
+  private layout(
+    items: Array<{ text: string; pointer: string }>,
+    open: string,
+    close: string,
+    pointer: string,
+    indent: string
+  ): string {
+    const inside = this.comments(pointer).inside ?? [];
+    if (items.length === 0 && inside.length === 0) return open + close;
+
+    const { indent: step, trailingCommas } = this.style;
+    if (!step) {
+      const parts = items.map(({ text, pointer: childPointer }, index) => {
+        const comments = this.comments(childPointer);
+        const comma = index < items.length - 1 ? "," : "";
+        return this.before(comments, "") + text + this.after(comments) + comma;
+      });
+      const tail = inside.map((comment) => ` ${toBlock(comment)}`).join("");
+      return open + parts.join("") + tail + close;
+    }
+
+    const inner = indent + step;
+    const lines = items.map(({ text, pointer: childPointer }, index) => {
+      const comments = this.comments(childPointer);
+      const comma = index < items.length - 1 || trailingCommas ? "," : "";
+      return (
+        this.before(comments, inner) +
+        inner +
+        text +
+        comma +
+        this.after(comments)
+      );
+    });
+    lines.push(...inside.map((comment) => inner + comment));
+    return `${open}\n${lines.join("\n")}\n${indent}${close}`;
+  }
+
+  private comments(pointer: string): JsonCommentSet {
+    return this.style.comments?.get(pointer) ?? {};
+  }
+
+  /**
+   * Comments before a value: one per line when indenting, inline otherwise
+   */
+  private before({ before = [] }: JsonCommentSet, indent: string): string {
+    if (!this.style.indent) {
+      return before.map((comment) => `${toBlock(comment)} `).join("");
+    }
+    return before.map((comment) => `${indent}${comment}\n`).join("");
+  }
+
+  /**
+   * Comments after a value on the same line; only the last one may be a line
+   * comment, and none in compact output where the line goes on
+   */
+  private after({ after = [] }: JsonCommentSet): string {
+    const compact = !this.style.indent;
+    return after
+      .map((comment, index) =>
+        compact || index < after.length - 1 ? toBlock(comment) : comment
+      )
+      .map((comment) => ` ${comment}`)
+      .join("");
+  }
+}
+
+/**
+ * Turn a line comment into a block comment so that code can follow it
+ */
+function toBlock(comment: string): string {
+  if (!comment.startsWith("//")) return comment;
+  return `/*${comment.slice(2).replace(/\*\//g, "* /")} */`;
+}
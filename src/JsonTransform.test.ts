@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { parseJson, tryParseJson } from "./JsonParser.js";
+import { extractAllJson } from "./JsonExtractor.js";
+import { transforms } from "./JsonTransform.js";
+import type { JsonPath } from "./JsonPath.js";
+
+describe("reviver", () => {
+  it("should call the reviver with key, value and path, children first", () => {
+    const calls: Array<[string, unknown, JsonPath]> = [];
+    parseJson('{"a": [1, {"b": true}]}', {
+      reviver: (key, value, path) => {
+        calls.push([key, value, path]);
+        return value;
+      },
+    });
+
+    expect(calls).toEqual([
+      ["0", 1, ["a", 0]],
+      ["b", true, ["a", 1, "b"]],
+      ["1", { b: true }, ["a", 1]],
+      ["a", [1, { b: true }], ["a"]],
+      ["", { a: [1, { b: true }] }, []],
+    ]);
+  });
+
+  it("should accept a JSON.parse reviver and match its output", () => {
+    const reviver = (key: string, value: unknown) =>
+      typeof value === "number" ? value * 10 : value;
+    const json = '{"a": 1, "b": [2, 3], "c": {"d": 4}}';
+
+    expect(parseJson(json, { reviver })).toEqual(JSON.parse(json, reviver));
+  });
+
+  it("should remove properties the reviver returns undefined for", () => {
+    const result = parseJson('{"keep": [1], "drop": null}', {
+      reviver: (_key, value) => (value === null ? undefined : value),
+    });
+
+    expect(result).toEqual({ keep: [1] });
+  });
+
+  it("should leave a hole for elements the reviver returns undefined for", () => {
+    const reviver = (_key: string, value: unknown) =>
+      value === null ? undefined : value;
+    const json = '{"keep": [1, null, 2, null]}';
+    const result = parseJson(json, { reviver });
+
+    expect(result).toStrictEqual(JSON.parse(json, reviver));
+    expect(result.keep).toHaveLength(4);
+    expect(1 in result.keep).toBe(false);
+    expect(result.keep[2]).toBe(2);
+  });
+
+  it("should apply on every parse path", () => {
+    const reviver = (_key: string, value: unknown) =>
+      value === "x" ? "y" : value;
+    const inputs = [
+      '{"v": "x"}',
+      "{'v': 'x', // comment\n}",
+      '```json\n{"v": "x"}\n```',
+      'The answer is {"v": "x"} as requested.',
+    ];
+
+    for (const input of inputs) {
+      expect(parseJson(input, { reviver })).toEqual({ v: "y" });
+    }
+  });
+
+  it("should revive the values of a truncated document", () => {
+    const result = tryParseJson('{"items": [" a ", " b', {
+      repairTruncated: true,
+      transform: transforms.trimStrings(),
+    });
+
+    expect(result.data).toEqual({ items: ["a", "b"] });
+    expect(result.incompletePaths).toEqual([[], ["items"], ["items", 1]]);
+  });
+});
+
+describe("transforms", () => {
+  it("should convert ISO date strings to Dates", () => {
+    const result = parseJson(
+      '{"created": "2024-05-01T12:30:00Z", "day": "2024-05-01", "name": "2024", "bad": "2024-13-45"}',
+      { transform: transforms.isoDates() }
+    );
+
+    expect(result.created).toEqual(new Date(Date.UTC(2024, 4, 1, 12, 30)));
+    expect(result.day).toEqual(new Date(Date.UTC(2024, 4, 1)));
+    expect(result.name).toBe("2024");
+    expect(result.bad).toBe("2024-13-45");
+  });
+
+  it("should leave dates that do not exist as strings", () => {
+    const result = parseJson(
+      '["2024-02-30", "2023-02-29T10:00:00Z", "2024-04-31", "2024-02-29"]',
+      { transform: transforms.isoDates() }
+    );
+    expect(result).toEqual([
+      "2024-02-30",
+      "2023-02-29T10:00:00Z",
+      "2024-04-31",
+      new Date(Date.UTC(2024, 1, 29)),
+    ]);
+  });
+
+  it("should rename snake_case keys to camelCase", () => {
+    const result = parseJson(
+      '{"user_id": 1, "profile_info": {"first_name": "Ada"}, "_private": true, "__proto__": 2, "item_2": 3}',
+      { transform: transforms.camelCaseKeys() }
+    );
+
+    expect(Object.keys(result)).toEqual([
+      "userId",
+      "profileInfo",
+      "_private",
+      "__proto__",
+      "item2",
+    ]);
+    expect(result.profileInfo).toEqual({ firstName: "Ada" });
+  });
+
+  it("should report paths with the renamed keys", () => {
+    const paths: JsonPath[] = [];
+    const result = tryParseJson('{"tool_calls": [{"tool_name": "sea', {
+      repairTruncated: true,
+      transform: transforms.camelCaseKeys(),
+      reviver: (_key, value, path) => {
+        paths.push(path);
+        return value;
+      },
+    });
+
+    expect(result.data).toEqual({ toolCalls: [{ toolName: "sea" }] });
+    expect(result.incompletePaths).toEqual([
+      [],
+      ["toolCalls"],
+      ["toolCalls", 0],
+      ["toolCalls", 0, "toolName"],
+    ]);
+    expect(paths[0]).toEqual(["toolCalls", 0, "toolName"]);
+  });
+
+  it("should run several transforms in order, then the reviver", () => {
+    const result = parseJson('{"due_date": " 2024-05-01 "}', {
+      transform: [
+        transforms.trimStrings(),
+        transforms.isoDates(),
+        transforms.camelCaseKeys(),
+      ],
+      reviver: (key, value) =>
+        value instanceof Date ? `${key}:${value.getUTCDate()}` : value,
+    });
+
+    expect(result).toEqual({ dueDate: "dueDate:1" });
+  });
+
+  it("should apply to values found by extractAllJson", () => {
+    const found = extractAllJson(
+      'A {"first_name": "Ada"} and {"last_name": "L"}',
+      {
+        transform: transforms.camelCaseKeys(),
+      }
+    );
+
+    expect(found.map(({ value }) => value)).toEqual([
+      { firstName: "Ada" },
+      { lastName: "L" },
+    ]);
+  });
+});
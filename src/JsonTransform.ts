@@ -0,0 +1,95 @@
+import type { LenientGrammar } from "./LenientParser.js";
+import type { JsonPath } from "./JsonPath.js";
+
+/**
+ * Called like a JSON.parse reviver for every value once it is complete,
+ * children before their parent. `key` is the property name, the array index
+ * as a string, or "" for the root; `path` ends with the key. Returning
+ * undefined removes the property, or leaves a hole in place of the array
+ * element without shifting the others, as JSON.parse does.
+ */
+export type JsonReviver = (key: string, value: any, path: JsonPath) => any;
+
+export interface JsonTransform {
+  /** Rename a property key; `path` is the path of the enclosing object */
+  key?: (key: string, path: JsonPath) => string;
+  /** Replace a value, with the same contract as a reviver */
+  value?: JsonReviver;
+}
+
+/**
+ * A string holding an ISO 8601 date, optionally with a time and offset
+ */
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Whether the date an ISO date string starts with exists, since Date rolls
+ * "2024-02-30" over to March 1
+ */
+function isCalendarDate(text: string): boolean {
+  const [year, month, day] = text.slice(0, 10).split("-").map(Number) as [
+    number,
+    number,
+    number,
+  ];
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Built-in transforms for the `transform` option
+ */
+export const transforms = {
+  /** Turn ISO 8601 date strings such as "2024-05-01T12:00:00Z" into Dates */
+  isoDates: (): JsonTransform => ({
+    value: (_key, value) => {
+      if (typeof value !== "string" || !ISO_DATE.test(value)) return value;
+      if (!isCalendarDate(value)) return value;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    },
+  }),
+  /** Rename snake_case keys to camelCase, keeping leading underscores */
+  camelCaseKeys: (): JsonTransform => ({
+    key: (key) =>
+      key.replace(/(?<=[^_])_+([^_])/g, (_, char: string) =>
+        char.toUpperCase()
+      ),
+  }),
+  /** Remove leading and trailing whitespace from string values */
+  trimStrings: (): JsonTransform => ({
+    value: (_key, value) => (typeof value === "string" ? value.trim() : value),
+  }),
+};
+
+/**
+ * Combine the transforms, in order, followed by the reviver into the hooks
+ * of the lenient parser
+ */
+export function transformHooks(
+  transform: JsonTransform | JsonTransform[] = [],
+  reviver?: JsonReviver
+): Pick<LenientGrammar, "renameKey" | "revive"> {
+  const list = Array.isArray(transform) ? transform : [transform];
+  const renamers = list.flatMap(({ key }) => (key ? [key] : []));
+  const revivers = list.flatMap(({ value }) => (value ? [value] : []));
+  if (reviver) revivers.push(reviver);
+
+  return {
+    ...(renamers.length > 0 && {
+      renameKey: (key: string, path: JsonPath) =>
+        renamers.reduce((name, rename) => rename(name, path), key),
+    }),
+    ...(revivers.length > 0 && {
+      revive: (key: string, value: unknown, path: JsonPath) => {
+        for (const revive of revivers) {
+          if (value === undefined) break;
+          value = revive(key, value, path);
+        }
+        return value;
+      },
+    }),
+  };
+}
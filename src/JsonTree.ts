@@ -0,0 +1,150 @@
+import { parseLenient, type SourceSpan } from "./LenientParser.js";
+import {
+  resolveGrammar,
+  trimRange,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import { formatJsonPointer, type JsonPath } from "./JsonPath.js";
+
+export type JsonNodeType =
+  "object" | "array" | "property" | "string" | "number" | "boolean" | "null";
+
+/**
+ * Node of the concrete syntax tree; comments and whitespace are the text
+ * between nodes
+ */
+export interface JsonNode {
+  type: JsonNodeType;
+  /** Offset of the first character of the node in the text */
+  offset: number;
+  /** Length of the node in the text */
+  length: number;
+  /** Value of a string, number, boolean or null node, or a property's key */
+  value?: unknown;
+  /**
+   * Properties of an object, elements of an array, or the key and value
+   * nodes of a property, in source order
+   */
+  children?: JsonNode[];
+}
+
+export type JsonTreeOptions = Pick<
+  JsonParseOptions,
+  | "mode"
+  | "allowTrailingCommas"
+  | "allowComments"
+  | "allowSingleQuotes"
+  | "allowUnquotedKeys"
+  | "allowNaN"
+  | "allowInfinity"
+  | "stripBOM"
+  | "bigint"
+>;
+
+/**
+ * Parse a whole document, such as a config file, into a concrete syntax tree
+ * that keeps the location of every value, key and property. Unlike
+ * `parseJson`, nothing is extracted from surrounding text.
+ * @param text - The document
+ * @param options - Grammar options, as for `parseJson`
+ * @returns The root node
+ * @throws JsonParseError if the document cannot be parsed
+ */
+export function parseJsonTree(
+  text: string,
+  options: JsonTreeOptions = {}
+): JsonNode {
+  const { mode, stripBOM = mode !== "strict" } = options;
+  const grammar = { ...resolveGrammar(options), spans: true };
+  const bom = stripBOM && text.charCodeAt(0) === 0xfeff;
+  const [start, end] = trimRange(text, bom ? 1 : 0, text.length);
+  const { value, spans } = parseLenient(text, grammar, "cleaned", start, end);
+  return buildNode(value, "", spans!);
+}
+
+/**
+ * Find the node of the value at a path, or undefined if there is none
+ */
+export function findNode(root: JsonNode, path: JsonPath): JsonNode | undefined {
+  let node: JsonNode | undefined = root;
+  for (const segment of path) {
+    if (node?.type === "array" && typeof segment === "number") {
+      node = node.children![segment];
+    } else if (node?.type === "object") {
+      node = node.children!.find(
+        (property) => property.value === String(segment)
+      )?.children![1];
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+}
+
+/**
+ * Build the node of a parsed value from the spans the parser recorded
+ */
+function buildNode(
+  value: unknown,
+  pointer: string,
+  spans: Map<string, SourceSpan>
+): JsonNode {
+  const { start, end } = spans.get(pointer)!;
+  const node = { offset: start, length: end - start };
+
+  if (Array.isArray(value)) {
+    return {
+      type: "array",
+      ...node,
+      children: value.map((element, index) =>
+        buildNode(element, pointer + formatJsonPointer([index]), spans)
+      ),
+    };
+  }
+
+  if (value !== null && typeof value === "object") {
+    const properties = Object.keys(value).map((key): JsonNode => {
+      const childPointer = pointer + formatJsonPointer([key]);
+      const child = buildNode(
+        (value as Record<string, unknown>)[key],
+        childPointer,
+        spans
+      );
+      const keySpan = spans.get(childPointer)!.key!;
+      return {
+        type: "property",
+        offset: keySpan.start,
+        length: child.offset + child.length - keySpan.start,
+        value: key,
+        children: [
+          {
+            type: "string",
+            offset: keySpan.start,
+            length: keySpan.end - keySpan.start,
+            value: key,
+          },
+          child,
+        ],
+      };
+    });
+    // Object.keys lists integer-like keys first
+    properties.sort((a, b) => a.offset - b.offset);
+    return { type: "object", ...node, children: properties };
+  }
+
+  return { type: nodeType(value), ...node, value };
+}
+
+function nodeType(value: unknown): JsonNodeType {
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "boolean":
+      return "boolean";
+    case "number":
+    case "bigint":
+      return "number";
+    default:
+      return "null";
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseLenient,
+  parseLenientAt,
+  type LenientGrammar,
+} from "./LenientParser.js";
+
+const strict: LenientGrammar = {
+  trailingCommas: false,
+  comments: false,
+  singleQuotes: false,
+  unquotedKeys: false,
+  nan: false,
+  infinity: false,
+  controlCharacters: false,
+  extendedNumbers: false,
+  extendedStrings: false,
+  unicodeIdentifiers: false,
+  extendedWhitespace: false,
+  pythonLiterals: false,
+  javascriptLiterals: false,
+  innerQuotes: false,
+  missingSeparators: false,
+  repairTruncated: false,
+};
+
+const lenient: LenientGrammar = {
+  trailingCommas: true,
+  comments: true,
+  singleQuotes: true,
+  unquotedKeys: true,
+  nan: true,
+  infinity: true,
+  controlCharacters: true,
+  extendedNumbers: false,
+  extendedStrings: false,
+  unicodeIdentifiers: false,
+  extendedWhitespace: false,
+  pythonLiterals: false,
+  javascriptLiterals: false,
+  innerQuotes: false,
+  missingSeparators: false,
+  repairTruncated: false,
+};
+
+describe("LenientParser", () => {
+  describe("parseLenient", () => {
+    it("should match JSON.parse for standard JSON", () => {
+      const text =
+        '{"a": [1, -2.5e3, "x\\u0041\\n"], "b": {"c": null, "d": true}}';
+      expect(parseLenient(text, strict, "raw").value).toEqual(JSON.parse(text));
+    });
+
+    it("should create an own __proto__ property like JSON.parse", () => {
+      const { value: result } = parseLenient(
+        '{"__proto__": {"polluted": true}}',
+        strict,
+        "raw"
+      );
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result as object)).toEqual(["__proto__"]);
+    });
+
+    it("should accept every grammar feature when enabled", () => {
+      const result = parseLenient(
+        `{
+          // comment
+          key: 'it\\'s', /* block */
+          "tab": "a\tb",
+          list: [NaN, Infinity, -Infinity,],
+        }`,
+        lenient,
+        "raw"
+      ).value as Record<string, unknown>;
+      expect(result.key).toBe("it's");
+      expect(result.tab).toBe("a\tb");
+      expect(result.list).toEqual([NaN, Infinity, -Infinity]);
+    });
+
+    it.each([
+      ["trailing comma", "[1,]"],
+      ["comment", "[1 /* x */]"],
+      ["single quotes", "['a']"],
+      ["unquoted key", "{a: 1}"],
+      ["NaN", "[NaN]"],
+      ["Infinity", "[-Infinity]"],
+      ["control character", '["a\tb"]'],
+    ])("should reject %s when the feature is disabled", (_, text) => {
+      expect(() => parseLenient(text, strict, "raw")).toThrow(SyntaxError);
+    });
+
+    it("should record every non-standard construct in source order", () => {
+      const text =
+        '// c\n{key: \'a\\\'b\', "n": [NaN, -Infinity,], "s": "x\ty"}';
+      const { extensions } = parseLenient(text, lenient, "raw");
+      expect(
+        extensions.map(({ kind, start, end }) => [kind, text.slice(start, end)])
+      ).toEqual([
+        ["comment", "// c"],
+        ["unquoted-key", "key"],
+        ["single-quotes", "'a\\'b'"],
+        ["escape", "\\'"],
+        ["nan", "NaN"],
+        ["infinity", "-Infinity"],
+        ["trailing-comma", ","],
+        ["control-character", "\t"],
+      ]);
+    });
+
+    it("should record no extensions for standard JSON", () => {
+      expect(
+        parseLenient('{"a": [1, "x"]}', lenient, "raw").extensions
+      ).toEqual([]);
+    });
+
+    it("should reject trailing content", () => {
+      expect(() => parseLenient('{"a": 1} {"b": 2}', lenient, "raw")).toThrow(
+        "Expected end of input but found character '{' at line 1, column 10"
+      );
+    });
+
+    it("should report unterminated strings at their opening quote", () => {
+      expect(() => parseLenient('{"a": "bc', lenient, "raw")).toThrow(
+        expect.objectContaining({ offset: 6, expected: 'closing "' })
+      );
+    });
+
+    it("should only parse the given range and keep offsets absolute", () => {
+      const text = "xx [1, 2] yy";
+      expect(parseLenient(text, strict, "cleaned", 3, 9).value).toEqual([1, 2]);
+      expect(() => parseLenient(text, strict, "cleaned", 3, 8)).toThrow(
+        expect.objectContaining({ offset: 8, stage: "cleaned" })
+      );
+    });
+  });
+
+  describe("parseLenientAt", () => {
+    it("should parse a value embedded in text and return its end", () => {
+      const text = 'see {"a": "}"} here';
+      expect(parseLenientAt(text, 4, lenient, "extracted")).toEqual({
+        value: { a: "}" },
+        end: 14,
+        incompletePaths: [],
+        extensions: [],
+      });
+    });
+  });
+
+  describe("repairTruncated", () => {
+    const repair: LenientGrammar = { ...lenient, repairTruncated: true };
+
+    const repaired = (text: string) => parseLenient(text, repair, "raw");
+
+    it("should close an open string and every open container", () => {
+      expect(
+        repaired('{"agents": [{"name": "A"}, {"name": "B", "desc": "hal')
+      ).toEqual({
+        value: { agents: [{ name: "A" }, { name: "B", desc: "hal" }] },
+        end: 53,
+        incompletePaths: [[], ["agents"], ["agents", 1], ["agents", 1, "desc"]],
+        extensions: [],
+      });
+    });
+
+    it.each([
+      ['{"a": 1, "b', { a: 1 }],
+      ['{"a": 1, "b"', { a: 1 }],
+      ['{"a": 1, "b":', { a: 1 }],
+      ['{"a": 1, "b": ', { a: 1 }],
+      ["{a: 1, bc", { a: 1 }],
+    ])("should drop the dangling key in %s", (text, value) => {
+      expect(repaired(text).value).toEqual(value);
+    });
+
+    it.each([
+      ["[1, -", [1]],
+      ["[1, 2.", [1]],
+      ["[1, 3e+", [1]],
+      ["[1, -Inf", [1]],
+      ["[1, tr", [1]],
+      ["[1, nul", [1]],
+      ["[1, 23", [1, 23]],
+      ["[1, true", [1, true]],
+    ])("should drop a partial token in %s", (text, value) => {
+      expect(repaired(text).value).toEqual(value);
+    });
+
+    it("should drop a partial escape sequence", () => {
+      expect(repaired('["ab\\').value).toEqual(["ab"]);
+      expect(repaired('["ab\\u00').value).toEqual(["ab"]);
+    });
+
+    it("should close containers after a trailing comma or comment", () => {
+      expect(repaired("[1, 2,").value).toEqual([1, 2]);
+      expect(repaired('{"a": [1] /* unfinished').value).toEqual({ a: [1] });
+    });
+
+    it("should not report complete documents as incomplete", () => {
+      expect(repaired('{"a": [1]}').incompletePaths).toEqual([]);
+    });
+
+    it("should still reject syntax errors before the end", () => {
+      expect(() => repaired('{"a": 1 "b": 2')).toThrow(SyntaxError);
+    });
+
+    it("should reject input with no value at all", () => {
+      expect(() => repaired("   ")).toThrow("Unexpected end of input");
+      expect(() => repaired("tru")).toThrow("Unexpected end of input");
+    });
+  });
+});
@@ -0,0 +1,1544 @@
+import {
+  JsonParseError,
+  LineIndex,
+  type JsonParseErrorCode,
+  type JsonParseStage,
+} from "./JsonParseError.js";
+import { formatJsonPointer, type JsonPath } from "./JsonPath.js";
+
+/**
+ * Grammar features accepted on top of RFC 8259 JSON
+ */
+export interface LenientGrammar {
+  trailingCommas: boolean;
+  comments: boolean;
+  singleQuotes: boolean;
+  unquotedKeys: boolean;
+  nan: boolean;
+  infinity: boolean;
+  controlCharacters: boolean;
+  /** Hexadecimal numbers, leading or trailing decimal points and a "+" sign */
+  extendedNumbers: boolean;
+  /**
+   * Escaped line breaks and the other JavaScript escapes in strings, and raw
+   * control characters other than line breaks
+   */
+  extendedStrings: boolean;
+  /** Unquoted keys made of any Unicode identifier, including `\u` escapes */
+  unicodeIdentifiers: boolean;
+  /** Unicode space separators, vertical tab, form feed and BOM as whitespace */
+  extendedWhitespace: boolean;
+  /**
+   * Python `repr` output: True, False and None, `nan` and `inf`, tuples as
+   * arrays, `\U` and `\x` escapes, and number or constant dictionary keys
+   */
+  pythonLiterals: boolean;
+  /**
+   * JavaScript object literals: `undefined`, which drops a property and is
+   * null in an array, template strings without substitutions, number keys
+   * and computed keys holding a literal
+   */
+  javascriptLiterals: boolean;
+  /**
+   * Read a quote inside a string as part of it unless what follows could
+   * come after the string: `:` after a key, or `,`, `}` or `]` after a value.
+   * A backslash that starts no valid escape stands for itself.
+   */
+  innerQuotes: boolean;
+  /**
+   * Insert a comma missing between members or a colon missing after a key,
+   * and skip a comma repeated after another
+   */
+  missingSeparators: boolean;
+  /** Close whatever is still open when the input ends instead of failing */
+  repairTruncated: boolean;
+  /** Convert each number from its source text instead of returning a number */
+  numberFactory?: (source: string, value: number) => unknown;
+  /** Rename a property key; `path` is the path of the enclosing object */
+  renameKey?: (key: string, path: JsonPath) => string;
+  /**
+   * Replace each value once it is complete, children before their parent;
+   * returning undefined drops a property, or leaves a hole in an array
+   */
+  revive?: (key: string, value: unknown, path: JsonPath) => unknown;
+  /**
+   * Deepest nesting of objects and arrays allowed; the root is depth 1.
+   * Defaults to 1000, well within the call stack of the recursive parser
+   */
+  maxDepth?: number;
+  /** Most members allowed in one object */
+  maxKeys?: number;
+  /** Longest string or key allowed, in UTF-16 code units */
+  maxStringLength?: number;
+  /** Fail on a repeated key, or keep its first or last value (the default) */
+  duplicateKeys?: "error" | "first" | "last";
+  /**
+   * Keep `__proto__` and `constructor` keys as own properties (the default),
+   * drop them or fail
+   */
+  prototypeKeys?: "keep" | "drop" | "error";
+  /** Record the span of every value kept in the result */
+  spans?: boolean;
+  /**
+   * Decide for the value at each path whether to keep it, look inside it for
+   * values to keep, or only check its syntax; the output then lists the kept
+   * values, and duplicate keys are only detected within them
+   */
+  select?: (path: JsonPath) => SelectDecision;
+  /**
+   * Containers that an earlier parse of a prefix of the same text left open,
+   * keyed by the offset of their opening bracket. Parsing resumes after the
+   * last comma read in them instead of starting over, and the containers
+   * this parse leaves open are added. Spans, syntax extensions and
+   * selections before the resumed position are not reported again.
+   */
+  resume?: Map<number, OpenContainer>;
+  /**
+   * Collects the span of each object and array that closes, inner ones
+   * first, including those inside a value that then fails to parse
+   */
+  closed?: SourceSpan[];
+}
+
+/**
+ * A container left open at the end of a parse
+ */
+export interface OpenContainer {
+  /** Members read before the last comma */
+  members: Record<string, unknown> | unknown[];
+  /** Offset just past the last comma */
+  pos: number;
+  /** Members counted before the last comma, including skipped elements */
+  count: number;
+}
+
+export type SelectDecision = "keep" | "search" | "skip";
+
+/**
+ * A value kept by the grammar's `select`, with its path in the document
+ */
+export interface SelectedValue {
+  path: JsonPath;
+  value: unknown;
+}
+
+/**
+ * Kinds of syntax the lenient grammar accepts beyond RFC 8259
+ */
+export type SyntaxExtensionKind =
+  | "comment"
+  | "trailing-comma"
+  | "single-quotes"
+  | "unquoted-key"
+  | "nan"
+  | "infinity"
+  | "control-character"
+  | "number-syntax"
+  | "escape"
+  | "whitespace"
+  | "python-literal"
+  | "tuple"
+  | "undefined"
+  | "template-literal"
+  | "number-key"
+  | "computed-key"
+  | "inner-quote"
+  | "missing-comma"
+  | "missing-colon"
+  | "repeated-comma";
+
+/**
+ * A non-standard construct the parser accepted, with its span in the text
+ */
+export interface SyntaxExtension {
+  kind: SyntaxExtensionKind;
+  start: number;
+  end: number;
+  /**
+   * Standard JSON text with the same meaning, empty for constructs that are
+   * dropped; NaN and Infinity become `null` as with JSON.stringify
+   */
+  replacement: string;
+}
+
+export interface LenientParseOutput {
+  value: unknown;
+  end: number;
+  /** Paths of values closed early by `repairTruncated`, outermost first */
+  incompletePaths: JsonPath[];
+  /** Non-standard constructs the document relied on, in source order */
+  extensions: SyntaxExtension[];
+  /**
+   * Span of every value in the result keyed by JSON Pointer, in source order;
+   * present when the grammar asks for `spans`
+   */
+  spans?: Map<string, SourceSpan>;
+  /** Values kept by the grammar's `select`, in source order */
+  selected?: SelectedValue[];
+}
+
+export interface SourceSpan {
+  /** Offset of the first character of the value */
+  start: number;
+  /** Offset just past the value */
+  end: number;
+  /** Span of the property name, for object members */
+  key?: SourceSpan;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[a-zA-Z_$][a-zA-Z0-9_$]*/y;
+const PARTIAL_NUMBER_PATTERN = /-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/y;
+const STANDARD_NUMBER = new RegExp(`^${NUMBER_PATTERN.source}$`);
+const EXTENDED_NUMBER_PATTERN =
+  /[+-]?(?:0[xX][0-9a-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const PARTIAL_EXTENDED_NUMBER_PATTERN =
+  /[+-]?(?:0[xX][0-9a-fA-F]*|\d*(?:\.\d*)?(?:[eE][+-]?\d*)?)/y;
+const UNICODE_IDENTIFIER_PATTERN =
+  /(?:[\p{L}\p{Nl}$_]|\\u[0-9a-fA-F]{4})(?:[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200c\u200d]|\\u[0-9a-fA-F]{4})*/uy;
+const DECODED_IDENTIFIER_PATTERN =
+  /^[\p{L}\p{Nl}$_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200c\u200d]*$/u;
+const EXTENDED_WHITESPACE_PATTERN = /[\v\f\u00a0\u2028\u2029\ufeff\p{Zs}]/u;
+
+/** Marks a value that was cut off before any of it could be kept */
+const MISSING = Symbol("missing");
+
+const DEFAULT_MAX_DEPTH = 1000;
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+const LINE_TERMINATORS = ["\n", "\r", "\u2028", "\u2029"];
+
+const PROTOTYPE_KEYS = ["__proto__", "constructor"];
+
+const PYTHON_CONSTANTS: Record<string, boolean | null> = {
+  True: true,
+  False: false,
+  None: null,
+};
+
+/**
+ * Parse a complete document in `text[start, end)`; only whitespace and
+ * comments may surround the value. Error offsets refer to `text`.
+ */
+export function parseLenient(
+  text: string,
+  grammar: LenientGrammar,
+  stage: JsonParseStage,
+  start = 0,
+  end = text.length
+): LenientParseOutput {
+  const lines = new LineIndex(text);
+  const parser = new LenientParser(text, grammar, stage, start, end, lines);
+  try {
+    return parser.parseDocument();
+  } catch (error) {
+    // The last quote taken to end a string by the inner quote heuristic may
+    // have been inside it, which leaves the rest unreadable; it gets one
+    // more try as an inner quote
+    const quote = parser.closingQuote;
+    if (quote === undefined || asSyntaxError(error) === undefined) throw error;
+    const retry = new LenientParser(
+      text,
+      grammar,
+      stage,
+      start,
+      end,
+      lines,
+      quote
+    );
+    try {
+      return retry.parseDocument();
+    } catch (retryError) {
+      throw asSyntaxError(retryError) ? error : retryError;
+    }
+  }
+}
+
+/**
+ * Parse a single value starting at `start`, ignoring whatever follows it up
+ * to `end`. Parses of many values in one text can share its line index.
+ */
+export function parseLenientAt(
+  text: string,
+  start: number,
+  grammar: LenientGrammar,
+  stage: JsonParseStage,
+  end = text.length,
+  lines = new LineIndex(text)
+): LenientParseOutput {
+  const parser = new LenientParser(text, grammar, stage, start, end, lines);
+  return parser.output(parser.parseRoot());
+}
+
+/**
+ * Single-pass recursive descent parser over the raw text
+ */
+class LenientParser {
+  private readonly text: string;
+  private readonly grammar: LenientGrammar;
+  private readonly stage: JsonParseStage;
+  private readonly end: number;
+  /** Locates errors in the text */
+  private readonly lines: LineIndex;
+  private readonly path: JsonPath = [];
+  private readonly incompletePaths: JsonPath[] = [];
+  private readonly extensions: SyntaxExtension[] = [];
+  private readonly spans: Map<string, SourceSpan> | undefined;
+  private readonly selected: SelectedValue[] = [];
+  /** Whether the value being parsed is kept, searched or only checked */
+  private selection: SelectDecision;
+  /** Depth of members being parsed only to be discarded, whose spans are not kept */
+  private discarding = 0;
+  private truncated = false;
+  private pos: number;
+  /** Offset of a quote to read as an inner quote whatever follows it */
+  private readonly innerQuote: number | undefined;
+  /** Offset of the last quote the heuristic took as ending a value */
+  closingQuote: number | undefined;
+
+  constructor(
+    text: string,
+    grammar: LenientGrammar,
+    stage: JsonParseStage,
+    start: number,
+    end: number,
+    lines: LineIndex,
+    innerQuote?: number
+  ) {
+    this.text = text;
+    this.grammar = grammar;
+    this.stage = stage;
+    this.pos = start;
+    this.end = end;
+    this.lines = lines;
+    this.innerQuote = innerQuote;
+    this.spans = grammar.spans ? new Map() : undefined;
+    this.selection = grammar.select?.([]) ?? "keep";
+  }
+
+  /**
+   * Parse the whole range as one value, with only trivia around it
+   */
+  parseDocument(): LenientParseOutput {
+    this.skipTrivia();
+    const value = this.parseRoot();
+    this.skipTrivia();
+    this.expectEnd();
+    return this.output(value);
+  }
+
+  parseRoot(): unknown {
+    const start = this.pos;
+    let value: unknown;
+    try {
+      value = this.parseValue();
+    } catch (error) {
+      // A raised maxDepth can still exceed the call stack
+      if (isStackOverflow(error)) {
+        throw this.violation(
+          "max-depth",
+          `Nesting is too deep to parse at ${this.path.length} levels`,
+          this.pos
+        );
+      }
+      throw error;
+    }
+    if (value === MISSING) {
+      throw this.error("Unexpected end of input", "value");
+    }
+    const revived = this.selection === "keep" ? this.revive("", value) : value;
+    if (
+      this.grammar.select &&
+      this.selection === "keep" &&
+      revived !== MISSING
+    ) {
+      this.selected.push({ path: [], value: revived });
+    }
+    this.settleSpan(revived, start);
+    return revived === MISSING ? undefined : revived;
+  }
+
+  output(value: unknown): LenientParseOutput {
+    const { spans } = this;
+    return {
+      value,
+      end: this.pos,
+      incompletePaths: this.incompletePaths.reverse(),
+      extensions: this.extensions.sort((a, b) => a.start - b.start),
+      ...(spans && {
+        spans: new Map([...spans].sort(([, a], [, b]) => a.start - b.start)),
+      }),
+      ...(this.grammar.select && { selected: this.selected }),
+    };
+  }
+
+  /**
+   * Parse the value at the current path, deciding whether to keep it when
+   * its container is only searched, and revive it if it is kept
+   */
+  private parseMember(key: string): unknown {
+    const outer = this.selection;
+    if (outer === "search") this.selection = this.grammar.select!(this.path);
+    let value = this.parseValue();
+    if (value !== MISSING && this.selection === "keep") {
+      value = this.revive(key, value);
+      if (outer === "search" && value !== MISSING) {
+        this.selected.push({ path: [...this.path], value });
+      }
+    }
+    this.selection = outer;
+    return value;
+  }
+
+  /**
+   * Pass a complete value at the current path through the `revive` hook,
+   * mapping a dropped value to MISSING
+   */
+  private revive(key: string, value: unknown): unknown {
+    const { revive } = this.grammar;
+    if (!revive) return value;
+    const revived = revive(key, value, [...this.path]);
+    return revived === undefined ? MISSING : revived;
+  }
+
+  /**
+   * Record the span of the value at the current path, or forget the spans
+   * inside it when the value was dropped
+   */
+  private settleSpan(value: unknown, start: number, key?: SourceSpan): void {
+    if (!this.spans || this.discarding > 0) return;
+    if (value === MISSING) {
+      this.forgetSpans();
+    } else {
+      this.spans.set(formatJsonPointer(this.path), {
+        start,
+        end: this.pos,
+        ...(key && { key }),
+      });
+    }
+  }
+
+  /**
+   * Forget the spans at and below the current path, before a value there is
+   * replaced or after it was dropped
+   */
+  private forgetSpans(): void {
+    if (!this.spans || this.discarding > 0) return;
+    const pointer = formatJsonPointer(this.path);
+    for (const key of this.spans.keys()) {
+      if (key === pointer || key.startsWith(`${pointer}/`)) {
+        this.spans.delete(key);
+      }
+    }
+  }
+
+  private parseValue(): unknown {
+    const char = this.peek();
+    const start = this.pos;
+
+    switch (char) {
+      case "{":
+        this.checkDepth();
+        return this.noteClosed(start, this.parseObject());
+      case "[":
+        this.checkDepth();
+        return this.noteClosed(start, this.parseArray());
+      case '"':
+        return this.parseStringValue('"');
+      case "'":
+        if (this.grammar.singleQuotes) return this.parseStringValue("'");
+        break;
+      case "`":
+        if (this.grammar.javascriptLiterals) return this.parseStringValue("`");
+        break;
+      case "(":
+        if (!this.grammar.pythonLiterals) break;
+        this.checkDepth();
+        return this.parseArray(")");
+      case undefined:
+        if (this.atTruncation()) return MISSING;
+        throw this.error("Unexpected end of input", "value");
+    }
+
+    if (char === "-" || (char >= "0" && char <= "9")) {
+      return this.parseNumber();
+    }
+    if ((char === "+" || char === ".") && this.grammar.extendedNumbers) {
+      return this.parseNumber();
+    }
+
+    return this.parseWord();
+  }
+
+  skipTrivia(): void {
+    const { text, end } = this;
+
+    while (this.pos < end) {
+      const char = text[this.pos];
+
+      if (char === " " || char === "\t" || char === "\n" || char === "\r") {
+        this.pos++;
+      } else if (
+        this.grammar.extendedWhitespace &&
+        EXTENDED_WHITESPACE_PATTERN.test(char!)
+      ) {
+        this.pos++;
+        this.record("whitespace", " ", this.pos - 1);
+      } else if (char === "/" && this.grammar.comments) {
+        const start = this.pos;
+        const next = this.peek(1);
+        if (next === "/") {
+          this.pos += 2;
+          while (this.pos < end && !this.atLineTerminator()) this.pos++;
+          this.record("comment", "", start);
+        } else if (next === "*") {
+          const commentEnd = text.indexOf("*/", this.pos + 2);
+          if (commentEnd === -1 || commentEnd + 2 > end) {
+            if (this.grammar.repairTruncated) {
+              this.pos = end;
+              this.record("comment", "", start);
+              return;
+            }
+            throw this.error("Unterminated comment", "'*/'");
+          }
+          this.pos = commentEnd + 2;
+          this.record("comment", "", start);
+        } else {
+          return;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  expectEnd(): void {
+    if (this.pos < this.end) {
+      throw this.unexpected("end of input");
+    }
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const start = this.pos;
+    const { resume } = this.grammar;
+    const resumed = resume?.get(start);
+    let result: Record<string, unknown> = {};
+    let members = 0;
+    /** Offset just past the last comma, and the members counted before it */
+    let checkpoint: { pos: number; count: number } | undefined;
+    /** A key the member after the last comma added, or false if it replaced one */
+    let added: string | false | undefined;
+
+    const leaveOpen = (): Record<string, unknown> => {
+      if (resume && checkpoint && added !== false) {
+        const kept = { ...result };
+        if (added !== undefined) delete kept[added];
+        resume.set(start, { members: kept, ...checkpoint });
+      }
+      return this.closeTruncated(result);
+    };
+
+    if (resumed) {
+      result = { ...(resumed.members as Record<string, unknown>) };
+      members = resumed.count;
+      checkpoint = { pos: resumed.pos, count: members };
+      if (this.skipComma(resumed.pos - 1, "}")) {
+        return this.closeResumed(result, start);
+      }
+    } else {
+      this.pos++; // {
+      this.skipTrivia();
+      if (this.peek() === "}") {
+        this.pos++;
+        return result;
+      }
+    }
+
+    for (;;) {
+      // A dangling key without a value is dropped
+      if (this.atTruncation()) return leaveOpen();
+      const keyStart = this.pos;
+      const { maxKeys = Infinity } = this.grammar;
+      if (++members > maxKeys) {
+        throw this.violation(
+          "max-keys",
+          `Object has more than ${maxKeys} properties`,
+          keyStart
+        );
+      }
+      const key = this.parseKey();
+      const keyEnd = this.pos;
+      this.checkStringLength(key, keyStart);
+      if (this.truncated) return leaveOpen();
+      this.skipTrivia();
+      if (this.atTruncation()) return leaveOpen();
+      if (this.peek() === ":") {
+        this.pos++;
+      } else if (!this.insertSeparator("missing-colon", keyEnd)) {
+        throw this.unexpected("':' after property name");
+      }
+      this.skipTrivia();
+
+      const name = this.grammar.renameKey?.(key, [...this.path]) ?? key;
+      const assign = this.checkKey(result, name, keyStart);
+      this.path.push(name);
+      if (!assign) this.discarding++;
+      else if (Object.hasOwn(result, name)) this.forgetSpans();
+      const valueStart = this.pos;
+      const value = this.parseMember(name);
+      this.settleSpan(value, valueStart, { start: keyStart, end: keyEnd });
+      if (!assign) this.discarding--;
+      this.path.pop();
+      if (value !== MISSING && assign && this.selection === "keep") {
+        added = Object.hasOwn(result, name) ? false : name;
+        setProperty(result, name, value);
+      }
+      if (this.truncated) return leaveOpen();
+
+      const valueEnd = this.pos;
+      this.skipTrivia();
+      if (this.atTruncation()) return leaveOpen();
+
+      const char = this.peek();
+      if (char === "}") {
+        this.pos++;
+        return this.closeResumed(result, start);
+      }
+      if (char !== ",") {
+        if (this.insertSeparator("missing-comma", valueEnd)) continue;
+        throw this.unexpected("',' or '}' after property value");
+      }
+      checkpoint = { pos: this.pos + 1, count: members };
+      added = undefined;
+      if (this.skipComma(this.pos, "}")) {
+        return this.closeResumed(result, start);
+      }
+    }
+  }
+
+  /**
+   * Parse an array, or a Python tuple when `close` is ")"
+   */
+  private parseArray(close: "]" | ")" = "]"): unknown[] {
+    const start = this.pos;
+    const { resume } = this.grammar;
+    const resumed = resume?.get(start);
+    let result: unknown[] = [];
+    // Elements of an array that is not kept are counted without storing them
+    let skipped = 0;
+    /** Offset just past the last comma, and the elements before it */
+    let checkpoint: { pos: number; count: number; length: number } | undefined;
+
+    const leaveOpen = (): unknown[] => {
+      if (resume && checkpoint) {
+        const { length, ...rest } = checkpoint;
+        resume.set(start, { members: result.slice(0, length), ...rest });
+      }
+      return this.closeTruncated(result);
+    };
+
+    if (close === ")") this.record("tuple", "[", start, start + 1);
+    if (resumed) {
+      result = (resumed.members as unknown[]).slice();
+      skipped = resumed.count;
+      checkpoint = { pos: resumed.pos, count: skipped, length: result.length };
+      if (this.skipComma(resumed.pos - 1, close)) {
+        return this.closeResumed(result, start);
+      }
+    } else {
+      this.pos++; // [ or (
+      this.skipTrivia();
+      if (this.peek() === close) {
+        this.closeArray(close);
+        return result;
+      }
+    }
+
+    for (;;) {
+      if (this.atTruncation()) return leaveOpen();
+
+      const index = this.selection === "keep" ? result.length : skipped++;
+      this.path.push(index);
+      const valueStart = this.pos;
+      const value = this.parseMember(String(index));
+      this.settleSpan(value, valueStart);
+      this.path.pop();
+      if (this.selection === "keep") {
+        if (value !== MISSING) result.push(value);
+        // An element dropped by `revive` leaves a hole, as with JSON.parse
+        else if (!this.truncated) result.length++;
+      }
+      if (this.truncated) return leaveOpen();
+
+      const valueEnd = this.pos;
+      this.skipTrivia();
+      if (this.atTruncation()) return leaveOpen();
+
+      const char = this.peek();
+      if (char === close) {
+        this.closeArray(close);
+        return this.closeResumed(result, start);
+      }
+      if (char !== ",") {
+        if (this.insertSeparator("missing-comma", valueEnd)) continue;
+        throw this.unexpected(`',' or '${close}' after array element`);
+      }
+      checkpoint = {
+        pos: this.pos + 1,
+        count: skipped,
+        length: result.length,
+      };
+      if (this.skipComma(this.pos, close)) {
+        return this.closeResumed(result, start);
+      }
+    }
+  }
+
+  /**
+   * Read the comma at `comma` and what follows it up to the next member,
+   * closing the container at a trailing comma
+   * @returns Whether the container was closed
+   */
+  private skipComma(comma: number, close: "}" | "]" | ")"): boolean {
+    this.pos = comma + 1;
+    this.skipTrivia();
+    this.skipRepeatedCommas();
+    if (this.peek() !== close) return false;
+
+    if (!this.grammar.trailingCommas) {
+      throw close === "}"
+        ? this.error("Trailing comma in object", "property name")
+        : this.error("Trailing comma in array", "value");
+    }
+    this.record("trailing-comma", "", comma, comma + 1);
+    if (close === "}") this.pos++;
+    else this.closeArray(close);
+    return true;
+  }
+
+  /**
+   * Add the span of a container to the grammar's `closed` list, unless it
+   * was cut off
+   */
+  private noteClosed<T>(start: number, container: T): T {
+    if (!this.truncated) {
+      this.grammar.closed?.push({ start, end: this.pos });
+    }
+    return container;
+  }
+
+  /**
+   * Forget the open state of a container once it is closed
+   */
+  private closeResumed<T>(container: T, start: number): T {
+    this.grammar.resume?.delete(start);
+    return container;
+  }
+
+  /**
+   * Note a separator missing at `at` when the grammar inserts them and the
+   * next character does not end the container or separate members itself
+   */
+  private insertSeparator(
+    kind: "missing-comma" | "missing-colon",
+    at: number
+  ): boolean {
+    const char = this.peek();
+    if (!this.grammar.missingSeparators || char === undefined) return false;
+    if (/[,:}\])]/.test(char)) return false;
+    this.record(kind, kind === "missing-comma" ? "," : ":", at, at);
+    return true;
+  }
+
+  private skipRepeatedCommas(): void {
+    while (this.grammar.missingSeparators && this.peek() === ",") {
+      this.record("repeated-comma", "", this.pos, this.pos + 1);
+      this.pos++;
+      this.skipTrivia();
+    }
+  }
+
+  private closeArray(close: "]" | ")"): void {
+    if (close === ")") this.record("tuple", "]", this.pos, this.pos + 1);
+    this.pos++;
+  }
+
+  private parseKey(): string {
+    const char = this.peek();
+    const start = this.pos;
+
+    if (char === '"') return this.parseString('"', true);
+    if (char === "'" && this.grammar.singleQuotes) {
+      return this.parseString("'", true);
+    }
+
+    const { pythonLiterals, javascriptLiterals } = this.grammar;
+    if ((pythonLiterals || javascriptLiterals) && /[-+.0-9]/.test(char ?? "")) {
+      const key = String(this.parseNumberKey());
+      this.record("number-key", JSON.stringify(key), start);
+      return key;
+    }
+
+    const constant = pythonLiterals && this.matchSticky(IDENTIFIER_PATTERN);
+    if (constant && Object.hasOwn(PYTHON_CONSTANTS, constant)) {
+      // Dictionary keys are written the way json.dumps writes them
+      const key = JSON.stringify(PYTHON_CONSTANTS[constant]);
+      this.pos += constant.length;
+      this.record("python-literal", JSON.stringify(key), start);
+      return key;
+    }
+
+    if (char === "[" && javascriptLiterals) {
+      const key = this.parseComputedKey();
+      this.record("computed-key", JSON.stringify(key), start);
+      return key;
+    }
+
+    if (this.grammar.unquotedKeys && this.grammar.unicodeIdentifiers) {
+      const start = this.pos;
+      const identifier = this.parseUnicodeIdentifier();
+      this.record("unquoted-key", JSON.stringify(identifier), start);
+      return identifier;
+    }
+
+    if (this.grammar.unquotedKeys) {
+      const identifier = this.matchSticky(IDENTIFIER_PATTERN);
+      if (identifier !== null) {
+        this.pos += identifier.length;
+        this.record(
+          "unquoted-key",
+          JSON.stringify(identifier),
+          this.pos - identifier.length
+        );
+        return identifier;
+      }
+    }
+
+    throw this.unexpected("property name");
+  }
+
+  /**
+   * Read a number used as a key, which must be complete even when repairing
+   * truncated input
+   */
+  private parseNumberKey(): number {
+    const pattern = this.grammar.extendedNumbers
+      ? EXTENDED_NUMBER_PATTERN
+      : NUMBER_PATTERN;
+    const literal = this.matchSticky(pattern);
+    if (literal === null) throw this.unexpected("property name");
+    this.pos += literal.length;
+    return /^[+-]?0[xX]/.test(literal)
+      ? parseInt(literal.replace(/^[+-]?0[xX]/, ""), 16) *
+          (literal[0] === "-" ? -1 : 1)
+      : Number(literal);
+  }
+
+  /**
+   * Read a computed key such as `["name"]` or `[1]`, which must hold a
+   * string or number literal
+   */
+  private parseComputedKey(): string {
+    this.pos++; // [
+    this.skipTrivia();
+    const char = this.peek();
+    let key: string;
+    if (char === '"' || char === "'" || char === "`") {
+      key = this.parseString(char);
+    } else if (/[-+.0-9]/.test(char ?? "")) {
+      key = String(this.parseNumberKey());
+    } else {
+      throw this.unexpected("string or number in computed property name");
+    }
+    this.skipTrivia();
+    if (this.peek() !== "]") {
+      throw this.unexpected("']' after computed property name");
+    }
+    this.pos++;
+    return key;
+  }
+
+  /**
+   * Read an identifier as JavaScript defines it, decoding `\u` escapes, which
+   * must themselves stand for identifier characters
+   */
+  private parseUnicodeIdentifier(): string {
+    const identifier = this.matchSticky(UNICODE_IDENTIFIER_PATTERN);
+    if (identifier === null) {
+      throw this.unexpected("property name");
+    }
+
+    const decoded = identifier.replace(/\\u([0-9a-fA-F]{4})/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+    if (!DECODED_IDENTIFIER_PATTERN.test(decoded)) {
+      throw this.error("Invalid escape in property name", "property name");
+    }
+
+    this.pos += identifier.length;
+    return decoded;
+  }
+
+  private parseStringValue(quote: string): string {
+    const start = this.pos;
+    const value = this.parseString(quote);
+    this.checkStringLength(value, start);
+    if (this.truncated) this.incompletePaths.push([...this.path]);
+    return value;
+  }
+
+  private parseString(quote: string, key = false): string {
+    const { text, end } = this;
+    const start = this.pos;
+    let result = "";
+    let chunkStart = ++this.pos;
+    /** Quotes read as part of the string so far */
+    let innerQuotes = 0;
+
+    while (this.pos < end) {
+      const char = text[this.pos]!;
+
+      if (char === quote && !this.closesString(quote, key, innerQuotes)) {
+        innerQuotes++;
+        this.record(
+          "inner-quote",
+          JSON.stringify(quote).slice(1, -1),
+          this.pos,
+          this.pos + 1
+        );
+        this.pos++;
+        continue;
+      }
+
+      if (char === quote) {
+        result += text.slice(chunkStart, this.pos);
+        this.pos++;
+        this.recordQuotes(quote, result, start);
+        return result;
+      }
+
+      if (quote === "`" && char === "$" && this.peek(1) === "{") {
+        throw this.error("Template literal substitutions are not supported");
+      }
+
+      if (char === "\\") {
+        result += text.slice(chunkStart, this.pos);
+        result += this.parseEscape();
+        chunkStart = this.pos;
+        continue;
+      }
+
+      // Template strings may span lines
+      if (char < " " && quote === "`") {
+        this.pos++;
+        continue;
+      }
+      if (
+        char < " " &&
+        !this.grammar.controlCharacters &&
+        !(this.grammar.extendedStrings && char !== "\n" && char !== "\r")
+      ) {
+        throw this.error("Bad control character in string literal");
+      }
+      if (char < " ") {
+        this.record(
+          "control-character",
+          JSON.stringify(char).slice(1, -1),
+          this.pos,
+          this.pos + 1
+        );
+      }
+
+      this.pos++;
+    }
+
+    if (this.grammar.repairTruncated) {
+      this.truncated = true;
+      result += text.slice(chunkStart, end);
+      this.recordQuotes(quote, result, start);
+      return result;
+    }
+
+    this.pos = start;
+    throw this.error("Unterminated string", `closing ${quote}`);
+  }
+
+  /**
+   * Whether the quote at the current position ends the string, judged by
+   * what follows it when the grammar recovers inner quotes
+   */
+  private closesString(
+    quote: string,
+    key: boolean,
+    innerQuotes: number
+  ): boolean {
+    if (!this.grammar.innerQuotes || quote === "`") return true;
+    if (this.pos === this.innerQuote) return false;
+    const closes = this.looksClosing(quote, key, innerQuotes);
+    // A key ends at a colon, which leaves little room for doubt
+    if (closes && !key) this.closingQuote = this.pos;
+    return closes;
+  }
+
+  private looksClosing(
+    quote: string,
+    key: boolean,
+    innerQuotes: number
+  ): boolean {
+    const next = this.skipSpaces(this.pos + 1);
+    const char = this.text[next];
+    if (next >= this.end || this.startsComment(next)) return true;
+    // The next string after a missing separator, as in `"a" "b"`
+    const spaced = next > this.pos + 1;
+    if (spaced && char === quote && this.grammar.missingSeparators) return true;
+    if (key) return char === ":";
+    if (char === "}" || char === "]") return true;
+    if (char === ")" && this.grammar.pythonLiterals) return true;
+    if (char !== ",") return false;
+
+    // A comma ends the string only when a member can follow it
+    const after = this.skipSpaces(next + 1);
+    const follower = this.text[after];
+    if (after >= this.end || this.startsComment(after)) return true;
+    // In `"say "a", "b" now"` the quote after `a` closes a quotation opened
+    // inside the string, so a string left with an unmatched inner quote does
+    // not end before another string on the same line
+    if (
+      follower === quote &&
+      innerQuotes % 2 === 1 &&
+      !/[\n\r]/.test(this.text.slice(next, after))
+    ) {
+      return false;
+    }
+    if (/["{[\]}\d.+-]/.test(follower!)) return true;
+    if (follower === "'" && this.grammar.singleQuotes) return true;
+    if (follower === "`" && this.grammar.javascriptLiterals) return true;
+    if (follower === "(" && this.grammar.pythonLiterals) return true;
+    // A word must be a literal or an unquoted key, not more prose
+    IDENTIFIER_PATTERN.lastIndex = after;
+    const word = IDENTIFIER_PATTERN.exec(this.text)?.[0];
+    if (word === undefined) return false;
+    const end = this.skipSpaces(after + word.length);
+    return end >= this.end || /[,:\]})]/.test(this.text[end]!);
+  }
+
+  /**
+   * Offset of the first character at or after `pos` that is not whitespace
+   */
+  private skipSpaces(pos: number): number {
+    while (pos < this.end && /\s/.test(this.text[pos]!)) pos++;
+    return pos;
+  }
+
+  private startsComment(pos: number): boolean {
+    return (
+      this.grammar.comments &&
+      this.text[pos] === "/" &&
+      (this.text[pos + 1] === "/" || this.text[pos + 1] === "*")
+    );
+  }
+
+  /**
+   * Note a string in quotes other than double quotes
+   */
+  private recordQuotes(quote: string, value: string, start: number): void {
+    if (quote === "'") {
+      this.record("single-quotes", JSON.stringify(value), start);
+    } else if (quote === "`") {
+      this.record("template-literal", JSON.stringify(value), start);
+    }
+  }
+
+  private parseEscape(): string {
+    const escape = this.peek(1);
+
+    if (escape !== undefined && escape in SIMPLE_ESCAPES) {
+      this.pos += 2;
+      return SIMPLE_ESCAPES[escape]!;
+    }
+
+    if (escape === "'" && this.grammar.singleQuotes) {
+      this.pos += 2;
+      this.record("escape", "'", this.pos - 2);
+      return "'";
+    }
+
+    if (escape === "u") {
+      const hex = this.text.slice(
+        this.pos + 2,
+        Math.min(this.pos + 6, this.end)
+      );
+      if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+        this.pos += 6;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      if (/^[0-9a-fA-F]{0,3}$/.test(hex) && this.atTruncation(2 + hex.length)) {
+        this.pos = this.end;
+        return "";
+      }
+    }
+
+    // A lone backslash at the end of a cut-off string is dropped
+    if (escape === undefined && this.atTruncation(1)) {
+      this.pos = this.end;
+      return "";
+    }
+
+    const { extendedStrings, pythonLiterals } = this.grammar;
+    if ((extendedStrings || pythonLiterals) && escape !== undefined) {
+      const start = this.pos;
+      const decoded = this.parseExtendedEscape(escape);
+      this.record("escape", JSON.stringify(decoded).slice(1, -1), start);
+      return decoded;
+    }
+
+    // Text that leaves quotes unescaped tends to leave backslashes unescaped
+    if (this.grammar.innerQuotes && escape !== undefined) {
+      this.pos++;
+      this.record("escape", "\\\\", this.pos - 1, this.pos);
+      return "\\";
+    }
+
+    throw this.error("Bad escaped character", "escape sequence");
+  }
+
+  /**
+   * Decode the escapes JavaScript adds to JSON: escaped line breaks, `\v`,
+   * `\0`, `\xHH` and any other character standing for itself, and Python's
+   * `\UXXXXXXXX`
+   */
+  private parseExtendedEscape(escape: string): string {
+    if (escape === "U" && this.grammar.pythonLiterals) {
+      const hex = this.text.slice(
+        this.pos + 2,
+        Math.min(this.pos + 10, this.end)
+      );
+      if (/^[0-9a-fA-F]{8}$/.test(hex) && parseInt(hex, 16) <= 0x10ffff) {
+        this.pos += 10;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      if (/^[0-9a-fA-F]{0,7}$/.test(hex) && this.atTruncation(2 + hex.length)) {
+        this.pos = this.end;
+        return "";
+      }
+      throw this.error("Bad escaped character", "escape sequence");
+    }
+
+    if (LINE_TERMINATORS.includes(escape)) {
+      this.pos += escape === "\r" && this.peek(2) === "\n" ? 3 : 2;
+      return "";
+    }
+
+    if (escape === "x") {
+      const hex = this.text.slice(
+        this.pos + 2,
+        Math.min(this.pos + 4, this.end)
+      );
+      if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+        this.pos += 4;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      if (/^[0-9a-fA-F]?$/.test(hex) && this.atTruncation(2 + hex.length)) {
+        this.pos = this.end;
+        return "";
+      }
+      throw this.error("Bad escaped character", "escape sequence");
+    }
+
+    if (escape === "0" && !/[0-9]/.test(this.peek(2) ?? "")) {
+      this.pos += 2;
+      return "\0";
+    }
+
+    // Octal escapes, other digits and malformed \u escapes are not allowed
+    if ((escape >= "0" && escape <= "9") || escape === "u") {
+      throw this.error("Bad escaped character", "escape sequence");
+    }
+
+    this.pos += 2;
+    return escape === "v" ? "\v" : escape;
+  }
+
+  private parseNumber(): unknown {
+    const { extendedNumbers } = this.grammar;
+    const signedWords = this.signedWords();
+    for (const [word, value] of signedWords) {
+      if (this.lookingAt(word)) {
+        this.pos += word.length;
+        this.record(
+          /nan$/i.test(word) ? "nan" : "infinity",
+          "null",
+          this.pos - word.length
+        );
+        return this.toNumber(word, value);
+      }
+    }
+
+    const literal = this.matchSticky(
+      extendedNumbers ? EXTENDED_NUMBER_PATTERN : NUMBER_PATTERN
+    );
+
+    // Drop a partial number such as "-", "1." or "2e" cut off by the end
+    if (this.grammar.repairTruncated) {
+      const partial =
+        this.matchSticky(
+          extendedNumbers
+            ? PARTIAL_EXTENDED_NUMBER_PATTERN
+            : PARTIAL_NUMBER_PATTERN
+        ) ?? "";
+      if (
+        (literal === null || literal.length < partial.length) &&
+        this.atTruncation(partial.length)
+      ) {
+        this.pos = this.end;
+        return MISSING;
+      }
+      if (this.atTruncatedLiteral([...signedWords.keys()])) {
+        return MISSING;
+      }
+    }
+
+    if (literal === null) {
+      throw this.unexpected("number");
+    }
+
+    this.pos += literal.length;
+    const value = /^[+-]?0[xX]/.test(literal)
+      ? parseInt(literal.replace(/^[+-]?0[xX]/, ""), 16) *
+        (literal[0] === "-" ? -1 : 1)
+      : Number(literal);
+    if (!STANDARD_NUMBER.test(literal)) {
+      this.record(
+        "number-syntax",
+        JSON.stringify(value),
+        this.pos - literal.length
+      );
+    }
+    return this.toNumber(literal, value);
+  }
+
+  /**
+   * Apply the number factory, if any, to a parsed number
+   */
+  private toNumber(source: string, value: number): unknown {
+    const { numberFactory } = this.grammar;
+    return numberFactory ? numberFactory(source, value) : value;
+  }
+
+  /**
+   * The signed forms of Infinity and NaN allowed by the grammar
+   */
+  private signedWords(): Map<string, number> {
+    const words = new Map<string, number>();
+    if (this.grammar.infinity) words.set("-Infinity", -Infinity);
+    if (this.grammar.infinity && this.grammar.pythonLiterals) {
+      words.set("-inf", -Infinity);
+    }
+    if (this.grammar.extendedNumbers) {
+      if (this.grammar.infinity) words.set("+Infinity", Infinity);
+      if (this.grammar.nan) words.set("-NaN", NaN).set("+NaN", NaN);
+    }
+    return words;
+  }
+
+  private parseWord(): unknown {
+    const word = this.matchSticky(IDENTIFIER_PATTERN);
+
+    if (
+      this.grammar.repairTruncated &&
+      this.atTruncatedLiteral(this.literals())
+    ) {
+      return MISSING;
+    }
+
+    switch (word) {
+      case "true":
+        this.pos += 4;
+        return true;
+      case "false":
+        this.pos += 5;
+        return false;
+      case "null":
+        this.pos += 4;
+        return null;
+      case "NaN":
+        if (!this.grammar.nan) break;
+        this.pos += 3;
+        this.record("nan", "null", this.pos - 3);
+        return this.toNumber(word, NaN);
+      case "Infinity":
+        if (!this.grammar.infinity) break;
+        this.pos += 8;
+        this.record("infinity", "null", this.pos - 8);
+        return this.toNumber(word, Infinity);
+      case "True":
+      case "False":
+      case "None": {
+        if (!this.grammar.pythonLiterals) break;
+        const value = PYTHON_CONSTANTS[word]!;
+        this.pos += word.length;
+        this.record("python-literal", String(value), this.pos - word.length);
+        return value;
+      }
+      case "nan":
+        if (!this.grammar.pythonLiterals || !this.grammar.nan) break;
+        this.pos += 3;
+        this.record("nan", "null", this.pos - 3);
+        return this.toNumber(word, NaN);
+      case "inf":
+        if (!this.grammar.pythonLiterals || !this.grammar.infinity) break;
+        this.pos += 3;
+        this.record("infinity", "null", this.pos - 3);
+        return this.toNumber(word, Infinity);
+      case "undefined":
+        if (!this.grammar.javascriptLiterals) break;
+        return this.parseUndefined();
+    }
+
+    if (word !== null) {
+      throw this.error(`Unexpected token '${word}'`, "value");
+    }
+    throw this.unexpected("value");
+  }
+
+  /**
+   * Read `undefined` the way JSON.stringify writes it: a property holding it
+   * is dropped, and it is null in an array or at the root
+   */
+  private parseUndefined(): unknown {
+    const start = this.pos;
+    this.pos += "undefined".length;
+    const dropped = typeof this.path.at(-1) === "string";
+    this.record("undefined", dropped ? "" : "null", start);
+    return dropped ? MISSING : null;
+  }
+
+  private literals(): string[] {
+    const { nan, infinity, pythonLiterals, javascriptLiterals } = this.grammar;
+    const literals = ["true", "false", "null"];
+    if (nan) literals.push("NaN");
+    if (infinity) literals.push("Infinity");
+    if (pythonLiterals) {
+      literals.push("True", "False", "None");
+      if (nan) literals.push("nan");
+      if (infinity) literals.push("inf");
+    }
+    if (javascriptLiterals) literals.push("undefined");
+    return literals;
+  }
+
+  /**
+   * In repair mode, check whether the input ends `ahead` characters from here
+   * and flag the document as truncated if so
+   */
+  private atTruncation(ahead = 0): boolean {
+    if (this.grammar.repairTruncated && this.pos + ahead >= this.end) {
+      this.truncated = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * In repair mode, consume the rest of the input if it is a proper prefix
+   * of one of the literals
+   */
+  private atTruncatedLiteral(literals: string[]): boolean {
+    const remaining = this.end - this.pos;
+    const rest = this.text.slice(this.pos, this.end);
+    if (
+      literals.some(
+        (literal) => remaining < literal.length && literal.startsWith(rest)
+      ) &&
+      this.atTruncation(remaining)
+    ) {
+      this.pos = this.end;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Note a non-standard construct spanning `start` up to `end`, with the
+   * standard JSON text it stands for
+   */
+  private record(
+    kind: SyntaxExtensionKind,
+    replacement: string,
+    start: number,
+    end = this.pos
+  ): void {
+    this.extensions.push({ kind, start, end, replacement });
+  }
+
+  private closeTruncated<T>(container: T): T {
+    this.incompletePaths.push([...this.path]);
+    return container;
+  }
+
+  private atLineTerminator(): boolean {
+    const char = this.text[this.pos]!;
+    return (
+      char === "\n" ||
+      char === "\r" ||
+      (this.grammar.extendedWhitespace && LINE_TERMINATORS.includes(char))
+    );
+  }
+
+  private peek(ahead = 0): string | undefined {
+    const index = this.pos + ahead;
+    return index < this.end ? this.text[index] : undefined;
+  }
+
+  private lookingAt(literal: string): boolean {
+    return (
+      this.pos + literal.length <= this.end &&
+      this.text.startsWith(literal, this.pos)
+    );
+  }
+
+  private matchSticky(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match || this.pos + match[0].length > this.end) return null;
+    return match[0];
+  }
+
+  private unexpected(expected: string): JsonParseError {
+    const char = this.peek();
+    const found = char === undefined ? "end of input" : `character '${char}'`;
+    return this.error(`Expected ${expected} but found ${found}`, expected);
+  }
+
+  private error(reason: string, expected?: string): JsonParseError {
+    return JsonParseError.at(
+      reason,
+      this.lines,
+      this.pos,
+      this.stage,
+      expected
+    );
+  }
+
+  /**
+   * Error for input that parses but breaks one of the safeguards
+   */
+  private violation(
+    code: JsonParseErrorCode,
+    reason: string,
+    offset: number
+  ): JsonParseError {
+    return JsonParseError.at(
+      reason,
+      this.lines,
+      offset,
+      this.stage,
+      undefined,
+      code
+    );
+  }
+
+  /**
+   * Fail before opening a container nested deeper than `maxDepth`
+   */
+  private checkDepth(): void {
+    const { maxDepth = DEFAULT_MAX_DEPTH } = this.grammar;
+    if (this.path.length >= maxDepth) {
+      throw this.violation(
+        "max-depth",
+        `Nesting is deeper than ${maxDepth} levels`,
+        this.pos
+      );
+    }
+  }
+
+  private checkStringLength(value: string, start: number): void {
+    const { maxStringLength = Infinity } = this.grammar;
+    if (value.length > maxStringLength) {
+      throw this.violation(
+        "max-string-length",
+        `String is longer than ${maxStringLength} characters`,
+        start
+      );
+    }
+  }
+
+  /**
+   * Apply the duplicate and prototype key policies, returning whether the
+   * member should be assigned
+   */
+  private checkKey(
+    target: Record<string, unknown>,
+    key: string,
+    start: number
+  ): boolean {
+    const { duplicateKeys = "last", prototypeKeys = "keep" } = this.grammar;
+
+    if (PROTOTYPE_KEYS.includes(key) && prototypeKeys !== "keep") {
+      if (prototypeKeys === "error") {
+        throw this.violation(
+          "prototype-key",
+          `Forbidden property name ${JSON.stringify(key)}`,
+          start
+        );
+      }
+      return false;
+    }
+
+    if (duplicateKeys !== "last" && Object.hasOwn(target, key)) {
+      if (duplicateKeys === "error") {
+        throw this.violation(
+          "duplicate-key",
+          `Duplicate property name ${JSON.stringify(key)}`,
+          start
+        );
+      }
+      return false;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Assign like JSON.parse does, creating an own "__proto__" property instead
+ * of invoking the prototype setter
+ */
+function setProperty(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  if (key === "__proto__") {
+    Object.defineProperty(target, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  } else {
+    target[key] = value;
+  }
+}
+
+/** Whether an error is V8 running out of call stack */
+function isStackOverflow(error: unknown): boolean {
+  return error instanceof RangeError && /call stack/i.test(error.message);
+}
+
+/** A syntax error, as opposed to a safeguard violation or a bug */
+function asSyntaxError(error: unknown): JsonParseError | undefined {
+  return error instanceof JsonParseError && error.code === "syntax"
+    ? error
+    : undefined;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { findCodeFences, jsonCodeFences } from "./Markdown.js";
+
+describe("Markdown", () => {
+  describe("findCodeFences", () => {
+    it("should return the bounds and language of each fence", () => {
+      const text = 'Intro\n```json\n{"a": 1}\n```\nOutro';
+      const [fence] = findCodeFences(text);
+
+      expect(fence).toEqual({
+        language: "json",
+        start: 6,
+        end: 26,
+        contentStart: 14,
+        contentEnd: 22,
+      });
+      expect(text.slice(fence!.contentStart, fence!.contentEnd)).toBe(
+        '{"a": 1}'
+      );
+    });
+
+    it("should only take the first word of the info string", () => {
+      const [fence] = findCodeFences('``` JSON title="x"\n{}\n```');
+      expect(fence?.language).toBe("JSON");
+    });
+
+    it("should accept tilde fences and backticks in their info string", () => {
+      const fences = findCodeFences("~~~ json `x`\n[]\n~~~");
+      expect(fences).toHaveLength(1);
+      expect(fences[0]?.language).toBe("json");
+    });
+
+    it("should not treat inline code as a fence", () => {
+      expect(findCodeFences('Use ```json {"a": 1}``` here')).toEqual([]);
+    });
+
+    it("should close only on a fence of the same character and length", () => {
+      const text = "````\n```\n~~~~\n`````\nafter";
+      expect(findCodeFences(text)).toEqual([
+        { start: 0, end: 19, contentStart: 5, contentEnd: 13 },
+      ]);
+    });
+
+    it("should accept indented fences and CRLF line breaks", () => {
+      const text = "- item\r\n  ```json\r\n  [1]\r\n  ```\r\n";
+      const [fence] = findCodeFences(text);
+      expect(text.slice(fence!.contentStart, fence!.contentEnd).trim()).toBe(
+        "[1]"
+      );
+      expect(fence?.end).toBe(31);
+    });
+
+    it("should run an unclosed fence to the end of the text", () => {
+      expect(findCodeFences('```json\n{"a": ')).toEqual([
+        {
+          language: "json",
+          start: 0,
+          end: 14,
+          contentStart: 8,
+          contentEnd: 14,
+        },
+      ]);
+    });
+  });
+
+  describe("jsonCodeFences", () => {
+    it("should prefer blocks tagged as JSON", () => {
+      const fences = findCodeFences(
+        "```\n1\n```\n```Jsonc\n2\n```\n```ts\n3\n```\n```json5\n4\n```"
+      );
+      expect(jsonCodeFences(fences).map(({ language }) => language)).toEqual([
+        "Jsonc",
+        "json5",
+      ]);
+    });
+
+    it("should fall back to untagged blocks", () => {
+      const fences = findCodeFences("```ts\n1\n```\n```\n2\n```");
+      expect(jsonCodeFences(fences)).toEqual([fences[1]]);
+    });
+  });
+});
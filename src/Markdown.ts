@@ -0,0 +1,111 @@
+export interface CodeFence {
+  /** First word of the info string, such as `json`, if the fence has one */
+  language?: string;
+  /** Offset of the opening fence */
+  start: number;
+  /** Offset just past the closing fence, or the end of the text if unclosed */
+  end: number;
+  /** Offset of the first line of content */
+  contentStart: number;
+  /** Offset of the line break before the closing fence */
+  contentEnd: number;
+}
+
+/**
+ * Language tags that mark a code block as JSON, compared case-insensitively
+ */
+export const JSON_LANGUAGES: readonly string[] = ["json", "jsonc", "json5"];
+
+/**
+ * A run of at least three backticks or tildes, optionally indented, followed
+ * by an info string; backtick info strings cannot contain backticks
+ */
+const OPENING_FENCE = /^[ \t]*(?:(`{3,})([^`]*)|(~{3,})(.*))$/;
+const CLOSING_FENCE = /^[ \t]*(`{3,}|~{3,})[ \t]*$/;
+
+/**
+ * Find the fenced code blocks in a Markdown text, in order. Fences may be
+ * indented, as inside list items. A fence left open, as in output cut off at a
+ * token limit, runs to the end of the text.
+ */
+export function findCodeFences(text: string): CodeFence[] {
+  const fences: CodeFence[] = [];
+  let open: { marker: string; language?: string; start: number } | undefined;
+  let contentStart = 0;
+
+  for (const { start, end, next } of lines(text)) {
+    const line = text.slice(start, end);
+
+    if (!open) {
+      const match = OPENING_FENCE.exec(line);
+      if (match) {
+        const marker = match[1] ?? match[3]!;
+        const info = match[2] ?? match[4]!;
+        const language = info.trim().split(/\s+/)[0];
+        open = { marker, start, ...(language && { language }) };
+        contentStart = next;
+      }
+      continue;
+    }
+
+    const closing = CLOSING_FENCE.exec(line)?.[1];
+    if (
+      closing !== undefined &&
+      closing[0] === open.marker[0] &&
+      closing.length >= open.marker.length
+    ) {
+      fences.push({
+        ...(open.language !== undefined && { language: open.language }),
+        start: open.start,
+        end,
+        contentStart,
+        contentEnd: Math.max(contentStart, start - 1),
+      });
+      open = undefined;
+    }
+  }
+
+  if (open) {
+    fences.push({
+      ...(open.language !== undefined && { language: open.language }),
+      start: open.start,
+      end: text.length,
+      contentStart: Math.min(contentStart, text.length),
+      contentEnd: text.length,
+    });
+  }
+
+  return fences;
+}
+
+/**
+ * Pick the code blocks that likely hold JSON, in order of preference: blocks
+ * tagged as JSON, or, when there are none, untagged blocks
+ */
+export function jsonCodeFences(fences: CodeFence[]): CodeFence[] {
+  const tagged = fences.filter(
+    ({ language }) =>
+      language !== undefined && JSON_LANGUAGES.includes(language.toLowerCase())
+  );
+  return tagged.length > 0
+    ? tagged
+    : fences.filter(({ language }) => language === undefined);
+}
+
+/**
+ * Split a text into lines, yielding the bounds of each line without its line
+ * break and the offset of the following line
+ */
+function* lines(
+  text: string
+): Generator<{ start: number; end: number; next: number }> {
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf("\n", start);
+    const next = newline === -1 ? text.length + 1 : newline + 1;
+    let end = newline === -1 ? text.length : newline;
+    if (text[end - 1] === "\r") end--;
+    yield { start, end, next };
+    start = next;
+  }
+}
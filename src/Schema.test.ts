@@ -0,0 +1,256 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import {
+  schema,
+  validateSchema,
+  JsonValidationError,
+  type Infer,
+} from "./Schema.js";
+
+const agent = schema.object({
+  name: schema.string(),
+  description: schema.string(),
+  system_prompt: schema.string(),
+  tools: schema.optional(
+    schema.array(schema.object({ name: schema.string() }))
+  ),
+});
+
+describe("Schema", () => {
+  it("should infer output types from the builders", () => {
+    expectTypeOf<Infer<typeof agent>>().toEqualTypeOf<{
+      name: string;
+      description: string;
+      system_prompt: string;
+      tools?: { name: string }[];
+    }>();
+    const maybeAgent = schema.union(agent, schema.null());
+    expectTypeOf<Infer<typeof maybeAgent>>().toEqualTypeOf<Infer<
+      typeof agent
+    > | null>();
+  });
+
+  it("should accept matching values and keep unknown keys", () => {
+    const value = {
+      name: "A",
+      description: "d",
+      system_prompt: "p",
+      agent_id: [],
+    };
+    expect(validateSchema(agent, value)).toEqual({ value });
+  });
+
+  it("should report issues with their paths", () => {
+    const result = validateSchema(schema.array(agent), [
+      { name: "A", description: "d", system_prompt: "p" },
+      { name: 42, description: "d", tools: [{}] },
+    ]);
+    expect(result).toEqual({
+      issues: [
+        { path: [1, "name"], message: "Expected string, received number" },
+        { path: [1, "tools", 0, "name"], message: "Missing required property" },
+        { path: [1, "system_prompt"], message: "Missing required property" },
+      ],
+    });
+  });
+
+  it("should check literals, nullables and unions", () => {
+    const status = schema.union(schema.literal("ok"), schema.literal("failed"));
+    expect(validateSchema(status, "ok")).toEqual({ value: "ok" });
+    expect(validateSchema(status, "done")).toEqual({
+      issues: [
+        { path: [], message: 'Expected "ok" | "failed", received string' },
+      ],
+    });
+    expect(validateSchema(schema.nullable(schema.number()), null)).toEqual({
+      value: null,
+    });
+  });
+
+  it("should not treat inherited properties as present", () => {
+    const result = validateSchema(
+      schema.object({ constructor: schema.string() }),
+      {}
+    );
+    expect(result).toEqual({
+      issues: [{ path: ["constructor"], message: "Missing required property" }],
+    });
+  });
+
+  it("should normalize issues from other Standard Schema validators", () => {
+    const external = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: () => ({
+          issues: [{ message: "Nope", path: ["a", { key: 0 }] }],
+        }),
+      },
+    };
+    expect(validateSchema(external, {})).toEqual({
+      issues: [{ path: ["a", 0], message: "Nope" }],
+    });
+  });
+
+  it("should reject asynchronous validators", () => {
+    const external = {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: async (value: unknown) => ({ value }),
+      },
+    };
+    expect(() => validateSchema(external, {})).toThrow(TypeError);
+  });
+
+  it("should summarize issues in JsonValidationError", () => {
+    const error = new JsonValidationError([
+      { path: ["agents", 2, "name"], message: "Missing required property" },
+      { path: [], message: "Other" },
+    ]);
+    expect(error.message).toBe(
+      "Validation failed: agents[2].name: Missing required property (and 1 more)"
+    );
+  });
+
+  describe("coercion", () => {
+    const task = schema.object({
+      title: schema.string(),
+      count: schema.number(),
+      completed: schema.boolean(),
+      tags: schema.array(schema.string()),
+      priority: schema.withDefault(schema.number(), 1),
+      note: schema.optional(schema.string()),
+    });
+
+    it("should only fill in defaults when coercing", () => {
+      const value = { title: "t", count: 1, completed: false, tags: [] };
+      expect(validateSchema(task, value)).toEqual({
+        issues: [{ path: ["priority"], message: "Missing required property" }],
+      });
+      expect(validateSchema(task, value, { defaults: false })).toMatchObject({
+        issues: [{ path: ["priority"] }],
+      });
+      expect(validateSchema(task, value, true)).toMatchObject({
+        value: { priority: 1 },
+      });
+    });
+
+    it("should fix near-miss values and record each coercion", () => {
+      const result = validateSchema(
+        task,
+        {
+          title: 42,
+          count: " 3 ",
+          completed: "True",
+          tags: "urgent",
+          note: null,
+          extra: "x",
+        },
+        true
+      );
+
+      expect(result).toEqual({
+        value: {
+          title: "42",
+          count: 3,
+          completed: true,
+          tags: ["urgent"],
+          priority: 1,
+        },
+        coercions: [
+          { path: ["title"], kind: "string", from: 42, to: "42" },
+          { path: ["count"], kind: "number", from: " 3 ", to: 3 },
+          { path: ["completed"], kind: "boolean", from: "True", to: true },
+          {
+            path: ["tags"],
+            kind: "wrap-array",
+            from: "urgent",
+            to: ["urgent"],
+          },
+          {
+            path: ["note"],
+            kind: "null-to-missing",
+            from: null,
+            to: undefined,
+          },
+          { path: ["extra"], kind: "strip-key", from: "x", to: undefined },
+          { path: ["priority"], kind: "default", from: undefined, to: 1 },
+        ],
+      });
+    });
+
+    it("should only apply the enabled coercions", () => {
+      const result = validateSchema(
+        task,
+        { title: "t", count: "3", completed: false, tags: [], extra: 1 },
+        { scalars: false, stripUnknownKeys: false }
+      );
+      expect(result).toEqual({
+        issues: [
+          { path: ["count"], message: "Expected number, received string" },
+        ],
+        coercions: [
+          { path: ["priority"], kind: "default", from: undefined, to: 1 },
+        ],
+      });
+    });
+
+    it("should still report values that cannot be coerced", () => {
+      const result = validateSchema(schema.number(), "three", true);
+      expect(result).toEqual({
+        issues: [{ path: [], message: "Expected number, received string" }],
+        coercions: [],
+      });
+    });
+
+    it("should require defaulted properties without coercion", () => {
+      const result = validateSchema(task, {
+        title: "t",
+        count: 1,
+        completed: true,
+        tags: [],
+      });
+      expect(result).toEqual({
+        issues: [{ path: ["priority"], message: "Missing required property" }],
+      });
+    });
+
+    it("should coerce to literals", () => {
+      expect(validateSchema(schema.literal(2), "2", true)).toEqual({
+        value: 2,
+        coercions: [{ path: [], kind: "number", from: "2", to: 2 }],
+      });
+      expect("issues" in validateSchema(schema.literal(2), "3", true)).toBe(
+        true
+      );
+    });
+
+    it("should prefer union options that match without coercion", () => {
+      const idSchema = schema.union(schema.number(), schema.string());
+      expect(validateSchema(idSchema, "7", true)).toEqual({
+        value: "7",
+        coercions: [],
+      });
+      expect(
+        validateSchema(schema.union(schema.number(), schema.null()), "7", true)
+      ).toEqual({
+        value: 7,
+        coercions: [{ path: [], kind: "number", from: "7", to: 7 }],
+      });
+    });
+
+    it("should skip coercion for other Standard Schema validators", () => {
+      const external = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "test",
+          validate: (value: unknown) => ({ value }),
+        },
+      };
+      expect(validateSchema(external, "3", true)).toEqual({
+        value: "3",
+        coercions: [],
+      });
+    });
+  });
+});
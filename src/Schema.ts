@@ -0,0 +1,569 @@
+import { formatJsonPath, type JsonPath } from "./JsonPath.js";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * the built-in schemas and by validators such as Zod, Valibot and ArkType
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * A value that did not match the schema
+ */
+export interface JsonSchemaIssue {
+  path: JsonPath;
+  message: string;
+}
+
+/**
+ * Which near-miss values the coercion layer may fix, all enabled by default
+ */
+export interface JsonCoercionOptions {
+  /** Convert "3" to 3, "true" to true, and numbers or booleans to strings */
+  scalars?: boolean;
+  /** Wrap a single value in an array where an array is expected */
+  wrapArrays?: boolean;
+  /** Remove object keys that are not in the schema */
+  stripUnknownKeys?: boolean;
+  /** Treat null as missing for optional and defaulted properties */
+  nullAsMissing?: boolean;
+  /** Fill missing properties that have a default */
+  defaults?: boolean;
+}
+
+export type JsonCoercionKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "wrap-array"
+  | "strip-key"
+  | "null-to-missing"
+  | "default";
+
+/**
+ * A value the coercion layer changed to fit the schema
+ */
+export interface JsonCoercion {
+  path: JsonPath;
+  kind: JsonCoercionKind;
+  from: unknown;
+  to: unknown;
+}
+
+export type SchemaValidationResult<T> =
+  | { value: T; coercions?: JsonCoercion[] }
+  | { issues: JsonSchemaIssue[]; coercions?: JsonCoercion[] };
+
+/**
+ * Thrown by parseJson when the parsed value does not match the schema
+ */
+export class JsonValidationError extends Error {
+  readonly issues: JsonSchemaIssue[];
+
+  constructor(issues: JsonSchemaIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(
+      `Validation failed: ${
+        first ? `${formatJsonPath(first.path)}: ${first.message}` : "unknown"
+      }${more}`
+    );
+    this.name = "JsonValidationError";
+    this.issues = issues;
+  }
+}
+
+type Literal = string | number | boolean | null;
+
+export type SchemaDefinition =
+  | { type: "string" }
+  | { type: "number" }
+  | { type: "boolean" }
+  | { type: "null" }
+  | { type: "unknown" }
+  | { type: "literal"; value: Literal }
+  | { type: "array"; items: Schema }
+  | { type: "object"; shape: Record<string, Schema> }
+  | { type: "optional"; inner: Schema }
+  | { type: "nullable"; inner: Schema }
+  | { type: "default"; inner: Schema; value: unknown }
+  | { type: "union"; options: Schema[] };
+
+/**
+ * A built-in schema: a Standard Schema whose definition can be inspected
+ */
+export interface Schema<T = unknown> extends StandardSchemaV1<unknown, T> {
+  readonly definition: SchemaDefinition;
+}
+
+export interface OptionalSchema<T = unknown> extends Schema<T> {
+  readonly definition: { type: "optional"; inner: Schema };
+}
+
+export type Infer<S extends StandardSchemaV1> = StandardSchemaV1.InferOutput<S>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectOutput<Shape extends Record<string, Schema>> = Simplify<
+  {
+    [K in keyof Shape as Shape[K] extends OptionalSchema ? never : K]: Infer<
+      Shape[K]
+    >;
+  } & {
+    [K in keyof Shape as Shape[K] extends OptionalSchema ? K : never]?: Infer<
+      Shape[K]
+    >;
+  }
+>;
+
+/**
+ * Builders for the built-in schemas
+ */
+export const schema = {
+  string: (): Schema<string> => createSchema({ type: "string" }),
+  number: (): Schema<number> => createSchema({ type: "number" }),
+  boolean: (): Schema<boolean> => createSchema({ type: "boolean" }),
+  null: (): Schema<null> => createSchema({ type: "null" }),
+  unknown: (): Schema<unknown> => createSchema({ type: "unknown" }),
+  literal: <T extends Literal>(value: T): Schema<T> =>
+    createSchema({ type: "literal", value }),
+  array: <T>(items: Schema<T>): Schema<T[]> =>
+    createSchema({ type: "array", items }),
+  object: <Shape extends Record<string, Schema>>(
+    shape: Shape
+  ): Schema<ObjectOutput<Shape>> => createSchema({ type: "object", shape }),
+  optional: <T>(inner: Schema<T>): OptionalSchema<T> =>
+    createSchema({ type: "optional", inner }) as OptionalSchema<T>,
+  nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+    createSchema({ type: "nullable", inner }),
+  /**
+   * A property that coercion fills with `value` when it is missing. The
+   * default only applies with `coerce` and its `defaults` repair; plain
+   * validation reports the missing property like a required one.
+   */
+  withDefault: <T>(inner: Schema<T>, value: T): Schema<T> =>
+    createSchema({ type: "default", inner, value }),
+  union: <Options extends Schema[]>(
+    ...options: Options
+  ): Schema<Infer<Options[number]>> => createSchema({ type: "union", options }),
+};
+
+/**
+ * Run any Standard Schema synchronously, normalizing its issues. Coercion
+ * needs the definition of a built-in schema and is skipped for other
+ * validators.
+ */
+export function validateSchema<T>(
+  standardSchema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+  coerce: boolean | JsonCoercionOptions = false
+): SchemaValidationResult<T> {
+  if (coerce !== false && isBuiltInSchema(standardSchema)) {
+    const context = createContext(resolveCoercion(coerce));
+    const output = check(standardSchema, value, [], context);
+    const { issues, coercions } = context;
+    return issues.length > 0
+      ? { issues, coercions }
+      : { value: output as T, coercions };
+  }
+
+  const result = standardSchema["~standard"].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError("Asynchronous schema validation is not supported");
+  }
+
+  const coercions = coerce !== false ? { coercions: [] } : {};
+  if (result.issues) {
+    return {
+      issues: result.issues.map((issue) => ({
+        path: (issue.path ?? []).map(toPathSegment),
+        message: issue.message,
+      })),
+      ...coercions,
+    };
+  }
+  return { value: result.value, ...coercions };
+}
+
+/**
+ * Validate a value, throwing a JsonValidationError if it does not match
+ */
+export function assertSchema<T>(
+  standardSchema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+  coerce: boolean | JsonCoercionOptions = false
+): T {
+  const result = validateSchema(standardSchema, value, coerce);
+  if ("issues" in result) {
+    throw new JsonValidationError(result.issues);
+  }
+  return result.value;
+}
+
+interface CheckContext {
+  issues: JsonSchemaIssue[];
+  coercions: JsonCoercion[];
+  coerce: Required<JsonCoercionOptions> | null;
+}
+
+function createSchema<T>(definition: SchemaDefinition): Schema<T> {
+  const built: Schema<T> = {
+    definition,
+    "~standard": {
+      version: 1,
+      vendor: "safe-json",
+      validate: (value) => {
+        const context = createContext(null);
+        const output = check(built, value, [], context);
+        return context.issues.length > 0
+          ? { issues: context.issues }
+          : { value: output as T };
+      },
+    },
+  };
+  return built;
+}
+
+function createContext(
+  coerce: Required<JsonCoercionOptions> | null
+): CheckContext {
+  return { issues: [], coercions: [], coerce };
+}
+
+function resolveCoercion(
+  coerce: true | JsonCoercionOptions
+): Required<JsonCoercionOptions> {
+  const {
+    scalars = true,
+    wrapArrays = true,
+    stripUnknownKeys = true,
+    nullAsMissing = true,
+    defaults = true,
+  } = coerce === true ? {} : coerce;
+  return { scalars, wrapArrays, stripUnknownKeys, nullAsMissing, defaults };
+}
+
+function isBuiltInSchema(value: StandardSchemaV1): value is Schema {
+  return value["~standard"].vendor === "safe-json" && "definition" in value;
+}
+
+/**
+ * Check a value against a built-in schema, collecting issues and coercions
+ * and returning the validated value
+ */
+function check(
+  target: Schema,
+  value: unknown,
+  path: JsonPath,
+  context: CheckContext
+): unknown {
+  const { definition } = target;
+
+  switch (definition.type) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+      if (describeType(value) !== definition.type) {
+        const coerced = coerceScalar(definition.type, value, path, context);
+        if (coerced !== undefined) return coerced;
+        context.issues.push(mismatch(path, definition.type, value));
+      }
+      return value;
+
+    case "unknown":
+      return value;
+
+    case "literal":
+      if (value !== definition.value) {
+        const expected = describeType(definition.value);
+        if (
+          context.coerce?.scalars &&
+          convertScalar(expected, value) === definition.value
+        ) {
+          return coerceScalar(expected, value, path, context);
+        }
+        context.issues.push(
+          mismatch(path, JSON.stringify(definition.value), value)
+        );
+      }
+      return value;
+
+    case "optional":
+      return value === undefined
+        ? value
+        : check(definition.inner, value, path, context);
+
+    case "nullable":
+      return value === null
+        ? value
+        : check(definition.inner, value, path, context);
+
+    case "default":
+      return check(definition.inner, value, path, context);
+
+    case "array":
+      if (!Array.isArray(value)) {
+        if (context.coerce?.wrapArrays && value !== undefined) {
+          context.coercions.push({
+            path,
+            kind: "wrap-array",
+            from: value,
+            to: [value],
+          });
+          return [check(definition.items, value, [...path, 0], context)];
+        }
+        context.issues.push(mismatch(path, "array", value));
+        return value;
+      }
+      return value.map((item, index) =>
+        check(definition.items, item, [...path, index], context)
+      );
+
+    case "object":
+      return checkObject(definition.shape, value, path, context);
+
+    case "union":
+      return checkUnion(definition.options, value, path, context);
+  }
+}
+
+function checkObject(
+  shape: Record<string, Schema>,
+  value: unknown,
+  path: JsonPath,
+  context: CheckContext
+): unknown {
+  if (describeType(value) !== "object") {
+    context.issues.push(mismatch(path, "object", value));
+    return value;
+  }
+
+  const { coerce, coercions } = context;
+  const input = value as Record<string, unknown>;
+  const entries: Array<[string, unknown]> = [];
+
+  for (const [key, item] of Object.entries(input)) {
+    const propertyPath = [...path, key];
+    const propertySchema = Object.hasOwn(shape, key) ? shape[key] : undefined;
+
+    if (!propertySchema) {
+      if (coerce?.stripUnknownKeys) {
+        coercions.push({
+          path: propertyPath,
+          kind: "strip-key",
+          from: item,
+          to: undefined,
+        });
+      } else {
+        entries.push([key, item]);
+      }
+      continue;
+    }
+
+    const { type } = propertySchema.definition;
+    if (
+      item === null &&
+      coerce?.nullAsMissing &&
+      (type === "optional" || type === "default")
+    ) {
+      coercions.push({
+        path: propertyPath,
+        kind: "null-to-missing",
+        from: null,
+        to: undefined,
+      });
+      continue;
+    }
+
+    entries.push([key, check(propertySchema, item, propertyPath, context)]);
+  }
+
+  const present = new Set(entries.map(([key]) => key));
+  for (const [key, propertySchema] of Object.entries(shape)) {
+    if (present.has(key)) continue;
+
+    const { definition } = propertySchema;
+    if (definition.type === "default" && coerce?.defaults) {
+      coercions.push({
+        path: [...path, key],
+        kind: "default",
+        from: undefined,
+        to: definition.value,
+      });
+      entries.push([key, definition.value]);
+    } else if (definition.type !== "optional") {
+      context.issues.push({
+        path: [...path, key],
+        message: "Missing required property",
+      });
+    }
+  }
+
+  // fromEntries defines own properties, so "__proto__" keys stay data
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Take the first option that matches as is, then the first that matches
+ * after coercion
+ */
+function checkUnion(
+  options: Schema[],
+  value: unknown,
+  path: JsonPath,
+  context: CheckContext
+): unknown {
+  const attempts = context.coerce ? [null, context.coerce] : [null];
+
+  for (const coerce of attempts) {
+    for (const option of options) {
+      const attempt = createContext(coerce);
+      const output = check(option, value, path, attempt);
+      if (attempt.issues.length === 0) {
+        context.coercions.push(...attempt.coercions);
+        return output;
+      }
+    }
+  }
+
+  context.issues.push({
+    path,
+    message: `Expected ${options
+      .map((option) => describeSchema(option))
+      .join(" | ")}, received ${describeType(value)}`,
+  });
+  return value;
+}
+
+const NUMERIC_STRING = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Convert a scalar to the expected scalar type, recording the coercion, or
+ * return undefined if it cannot be converted
+ */
+function coerceScalar(
+  expected: string,
+  value: unknown,
+  path: JsonPath,
+  context: CheckContext
+): unknown {
+  if (!context.coerce?.scalars) return undefined;
+
+  const coerced = convertScalar(expected, value);
+  if (coerced !== undefined) {
+    context.coercions.push({
+      path,
+      kind: expected as JsonCoercionKind,
+      from: value,
+      to: coerced,
+    });
+  }
+  return coerced;
+}
+
+function convertScalar(expected: string, value: unknown): unknown {
+  if (expected === "number" && typeof value === "string") {
+    const trimmed = value.trim();
+    return NUMERIC_STRING.test(trimmed) ? Number(trimmed) : undefined;
+  }
+  if (expected === "boolean" && typeof value === "string") {
+    const lowered = value.trim().toLowerCase();
+    return lowered === "true" || lowered === "false"
+      ? lowered === "true"
+      : undefined;
+  }
+  if (
+    expected === "string" &&
+    (typeof value === "number" || typeof value === "boolean")
+  ) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function mismatch(
+  path: JsonPath,
+  expected: string,
+  value: unknown
+): JsonSchemaIssue {
+  return {
+    path,
+    message: `Expected ${expected}, received ${describeType(value)}`,
+  };
+}
+
+function describeSchema({ definition }: Schema): string {
+  switch (definition.type) {
+    case "literal":
+      return JSON.stringify(definition.value);
+    case "optional":
+    case "nullable":
+      return `${definition.type} ${describeSchema(definition.inner)}`;
+    case "default":
+      return describeSchema(definition.inner);
+    case "union":
+      return definition.options.map(describeSchema).join(" | ");
+    default:
+      return definition.type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value === undefined) return "undefined";
+  return typeof value;
+}
+
+function toPathSegment(
+  segment: PropertyKey | StandardSchemaV1.PathSegment
+): string | number {
+  const key = typeof segment === "object" ? segment.key : segment;
+  return typeof key === "number" ? key : String(key);
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { createStreamingParser } from "./StreamingParser.js";
+import { parseJson } from "./JsonParser.js";
+import type { JsonPath } from "./JsonPath.js";
+import { expectLinearTime } from "./testTiming.js";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+function chunks(text: string, size: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    result.push(text.slice(i, i + size));
+  }
+  return result;
+}
+
+describe("createStreamingParser", () => {
+  it("should expose a partial value while text arrives", () => {
+    const parser = createStreamingParser();
+    parser.push('{"name": "Al');
+    expect(parser.value).toEqual({ name: "Al" });
+    expect(parser.incompletePaths).toEqual([[], ["name"]]);
+
+    parser.push('ice", "tags": ["a", ');
+    expect(parser.value).toEqual({ name: "Alice", tags: ["a"] });
+
+    parser.push('"b"]}');
+    expect(parser.value).toEqual({ name: "Alice", tags: ["a", "b"] });
+    expect(parser.incompletePaths).toEqual([]);
+  });
+
+  it("should report each completed property and item once", () => {
+    const events: Array<[string, JsonPath, unknown]> = [];
+    const parser = createStreamingParser({
+      onProperty: ({ path, value }) => events.push(["property", path, value]),
+      onItem: ({ path, value }) => events.push(["item", path, value]),
+    });
+
+    for (const chunk of chunks(
+      '{"a": 1, "b": [true, {"c": null}], "d": "x"}',
+      3
+    )) {
+      parser.push(chunk);
+    }
+    parser.end();
+
+    expect(events).toEqual([
+      ["property", ["a"], 1],
+      ["item", ["b", 0], true],
+      ["property", ["b", 1, "c"], null],
+      ["item", ["b", 1], { c: null }],
+      ["property", ["b"], [true, { c: null }]],
+      ["property", ["d"], "x"],
+    ]);
+  });
+
+  it("should not report a value that may still grow", () => {
+    const items: unknown[] = [];
+    const parser = createStreamingParser({
+      onItem: ({ value }) => items.push(value),
+    });
+
+    parser.push("[12");
+    expect(items).toEqual([]);
+    parser.push("3, 4");
+    expect(items).toEqual([123]);
+    parser.push("]");
+    expect(items).toEqual([123, 4]);
+  });
+
+  it("should render agents before the response is done", () => {
+    const filePath = join(process.cwd(), "tests", "test2.json");
+    const fileContent = readFileSync(filePath, "utf-8");
+    const agentNames: string[] = [];
+    let partialAgentsSeen = false;
+
+    const parser = createStreamingParser({
+      onItem: ({ path, value }) => {
+        if (path.length === 2 && path[0] === "agents") {
+          agentNames.push((value as { name: string }).name);
+        }
+      },
+    });
+
+    for (const chunk of chunks(fileContent, 16)) {
+      parser.push(chunk);
+      if (parser.incompletePaths.length > 0 && parser.value?.agents?.length) {
+        partialAgentsSeen = true;
+      }
+    }
+
+    expect(partialAgentsSeen).toBe(true);
+    expect(agentNames).toEqual([
+      "Data Collector",
+      "Content Processor",
+      "Message Sender",
+    ]);
+    expect(parser.end()).toEqual(parseJson(fileContent));
+    expect(agentNames).toHaveLength(3);
+  });
+
+  it("should apply the same leniency and extraction as parseJson", () => {
+    const parser = createStreamingParser();
+    parser.push("Sure! Here it is:\n```json\n{'ok': true, // done\n");
+    expect(parser.value).toEqual({ ok: true });
+    parser.push("}\n```");
+    expect(parser.end()).toEqual({ ok: true });
+  });
+
+  it("should move to a JSON code block that opens after prose", () => {
+    const text = [
+      "Fill in {placeholder} and [TODO]:",
+      "```python",
+      "print({'no': 1})",
+      "```",
+      "```json",
+      '{"agents": [{"name": "a"}, {"name": "b"}]}',
+      "```",
+    ].join("\n");
+    const items: unknown[] = [];
+    const parser = createStreamingParser({
+      onItem: ({ path, value }) => path.length === 2 && items.push(value),
+    });
+    for (const chunk of chunks(text, 5)) parser.push(chunk);
+
+    const value = { agents: [{ name: "a" }, { name: "b" }] };
+    expect(parser.value).toEqual(value);
+    expect(items).toEqual(value.agents);
+    expect(parser.end()).toEqual(parseJson(text));
+  });
+
+  it("should prefer a block tagged as JSON to an untagged one", () => {
+    const parser = createStreamingParser();
+    parser.push("```\n[1]\n```\n");
+    expect(parser.value).toEqual([1]);
+    parser.push("```json\n[2");
+    expect(parser.value).toEqual([2]);
+    parser.push(", 3]\n```");
+    expect(parser.end()).toEqual([2, 3]);
+  });
+
+  it("should keep the last partial value across unparseable chunks", () => {
+    const parser = createStreamingParser();
+    parser.push("Thinking");
+    expect(parser.value).toBeUndefined();
+    parser.push(" [1, 2");
+    expect(parser.value).toEqual([1, 2]);
+  });
+
+  it("should read a root array after prose as the root", () => {
+    const parser = createStreamingParser();
+    parser.push('Here is the list: [{"a": 1}, {"b": ');
+    expect(parser.value).toEqual([{ a: 1 }, {}]);
+    parser.push("2}]");
+    expect(parser.value).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(parser.incompletePaths).toEqual([]);
+  });
+
+  it("should match a fresh parse after every chunk", () => {
+    const text =
+      "{a: [1, 2,], 'b': {c: [[3], {d: 4,},], /* x, y */ e: 5}, f: 6}";
+    const parser = createStreamingParser({ mode: "json5" });
+    for (const [i, chunk] of chunks(text, 3).entries()) {
+      parser.push(chunk);
+      const fresh = createStreamingParser({ mode: "json5" });
+      fresh.push(text.slice(0, (i + 1) * 3));
+      expect(parser.value).toEqual(fresh.value);
+      expect(parser.incompletePaths).toEqual(fresh.incompletePaths);
+    }
+    expect(parser.end()).toEqual({
+      a: [1, 2],
+      b: { c: [[3], { d: 4 }], e: 5 },
+      f: 6,
+    });
+  });
+
+  it("should read a long text in small chunks in linear time", async () => {
+    await expectLinearTime((size) => {
+      const value = {
+        agents: Array.from({ length: size }, (_, id) => ({
+          id,
+          name: `agent ${id}`,
+          tags: ["a", { deep: [id] }],
+        })),
+      };
+      let items = 0;
+      const parser = createStreamingParser({
+        onItem: ({ path }) => path.length === 2 && items++,
+      });
+      for (const chunk of chunks(JSON.stringify(value, null, 2), 20)) {
+        parser.push(chunk);
+      }
+      expect(parser.end()).toEqual(value);
+      expect(items).toBe(size);
+    }, 500);
+  });
+
+  it("should throw from end when the text is incomplete", () => {
+    const parser = createStreamingParser();
+    parser.push('{"a": [1');
+    expect(() => parser.end()).toThrow("Failed to parse JSON");
+  });
+
+  it("should repair incomplete text at the end when asked to", () => {
+    const parser = createStreamingParser({ repairTruncated: true });
+    parser.push('{"a": [1');
+    expect(parser.end()).toEqual({ a: [1] });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  checkLength,
+  parseWithFallbacks,
+  resolveGrammar,
+  type JsonParseOptions,
+} from "./JsonParser.js";
+import type { JsonPath } from "./JsonPath.js";
+import { createValueScanner } from "./JsonSequence.js";
+import {
+  parseLenientAt,
+  type LenientGrammar,
+  type OpenContainer,
+} from "./LenientParser.js";
+import { findCodeFences, jsonCodeFences } from "./Markdown.js";
+import { selectCodeBlock } from "./JsonStrategy.js";
+import { assertSchema } from "./Schema.js";
+
+export interface StreamingPropertyEvent {
+  /** Path of the completed value, ending with its key */
+  path: JsonPath;
+  key: string;
+  value: unknown;
+}
+
+export interface StreamingItemEvent {
+  /** Path of the completed value, ending with its index */
+  path: JsonPath;
+  index: number;
+  value: unknown;
+}
+
+export interface StreamingParseOptions extends JsonParseOptions {
+  /** Called once for every object member whose value is complete */
+  onProperty?: (event: StreamingPropertyEvent) => void;
+  /** Called once for every array element that is complete */
+  onItem?: (event: StreamingItemEvent) => void;
+}
+
+export interface StreamingParser<T = any> {
+  /**
+   * Append a chunk of text. The partial value is refreshed when the text is
+   * still short, when enough of it is new or when the value ends, so on a
+   * long text it may trail the last few chunks until then.
+   */
+  push(chunk: string): void;
+  /**
+   * Parse the full text, report the remaining events and return the result,
+   * validated against `schema` if one was given
+   */
+  end(): T;
+  /** Best-effort value for the text so far, undefined until anything parses */
+  readonly value: T | undefined;
+  /** Paths of the values still being written, outermost first */
+  readonly incompletePaths: JsonPath[];
+}
+
+/** Share of the text that must be new before a push parses it again */
+const REPARSE_FRACTION = 64;
+
+/** A line that opens or closes a code fence */
+const FENCE_LINE = /^[ \t]*(?:```|~~~)/;
+
+/** Characters kept of the line being written to tell if it is a fence */
+const LINE_HEAD_LENGTH = 256;
+
+/**
+ * Create a parser that accepts text in chunks, such as tokens streamed from a
+ * model, and exposes the partial value after each chunk.
+ *
+ * The partial value is read with the grammar of the options from the first
+ * character that can start a value, or else from the first bracket. Once a
+ * JSON code block opens, it is read from the block `parseJson` would prefer
+ * instead, starting over. Members completed by an earlier push are reused
+ * rather than parsed again, and once the text is long, a push only parses it
+ * again when at least 1/64 of it is new or the value has ended, which keeps a
+ * long stream in small chunks linear. `end` parses the whole text with the
+ * extraction fallbacks of `parseJson`. A member or element counts as
+ * complete once something follows it.
+ */
+export function createStreamingParser<T = any>(
+  options: StreamingParseOptions = {}
+): StreamingParser<T> {
+  const { onProperty, onItem, ...parseOptions } = options;
+  const strict = parseOptions.mode === "strict";
+  const emitted = new Map<string, number>();
+  const resume = new Map<number, OpenContainer>();
+  const grammar: LenientGrammar = {
+    ...resolveGrammar(parseOptions),
+    repairTruncated: true,
+    spans: false,
+    resume,
+  };
+  let buffer = "";
+  /** Start of the line being written, up to LINE_HEAD_LENGTH characters */
+  let lineHead = "";
+  /** Offset of the content of the code block the value is read from */
+  let block: number | undefined;
+  /** Offset of the value being written, once it has started */
+  let root: number | undefined;
+  /** Length of the text when it was last parsed */
+  let parsed = 0;
+  let scan = createValueScanner(grammar);
+  /** Whether the text seen so far reaches the end of the value */
+  let closed = false;
+  let value: unknown;
+  let incompletePaths: JsonPath[] = [];
+  let finished = false;
+
+  const emitChild = (
+    container: object,
+    key: string | number,
+    path: JsonPath
+  ): void => {
+    const value = (container as Record<string | number, unknown>)[key];
+    emitCompleted(value, path);
+
+    if (Array.isArray(container)) {
+      onItem?.({ path, index: key as number, value });
+    } else {
+      onProperty?.({ path, key: key as string, value });
+    }
+  };
+
+  /** Report every not yet reported value inside a complete value */
+  const emitCompleted = (value: unknown, path: JsonPath): void => {
+    if (!isContainer(value)) return;
+
+    const id = JSON.stringify(path);
+    const keys = childKeys(value);
+    for (let i = emitted.get(id) ?? 0; i < keys.length; i++) {
+      emitChild(value, keys.at(i), [...path, keys.at(i)]);
+    }
+    emitted.delete(id);
+  };
+
+  /**
+   * Walk the chain of incomplete containers, reporting every child except the
+   * last one, which may still be growing
+   */
+  const emitPartial = (
+    value: unknown,
+    path: JsonPath,
+    incomplete: Set<string>
+  ): void => {
+    if (!isContainer(value)) return;
+
+    const id = JSON.stringify(path);
+    const keys = childKeys(value);
+    const done = emitted.get(id) ?? 0;
+    for (let i = done; i < keys.length - 1; i++) {
+      emitChild(value, keys.at(i), [...path, keys.at(i)]);
+    }
+    emitted.set(id, Math.max(done, keys.length - 1));
+
+    if (keys.length === 0) return;
+    const lastKey = keys.at(keys.length - 1);
+    const lastPath = [...path, lastKey];
+    if (incomplete.has(JSON.stringify(lastPath))) {
+      emitPartial(
+        (value as Record<string | number, unknown>)[lastKey],
+        lastPath,
+        incomplete
+      );
+    }
+  };
+
+  /**
+   * Whether the chunk ends a line that opens or closes a code fence, looking
+   * only at the start of each line
+   */
+  const endsFenceLine = (chunk: string): boolean => {
+    let fence = false;
+    let pos = 0;
+    for (
+      let newline = chunk.indexOf("\n");
+      newline !== -1;
+      newline = chunk.indexOf("\n", pos)
+    ) {
+      const head =
+        lineHead + chunk.slice(pos, Math.min(newline, pos + LINE_HEAD_LENGTH));
+      fence ||= FENCE_LINE.test(head);
+      lineHead = "";
+      pos = newline + 1;
+    }
+    if (lineHead.length < LINE_HEAD_LENGTH) {
+      lineHead += chunk.slice(pos, pos + LINE_HEAD_LENGTH);
+    }
+    return fence;
+  };
+
+  /**
+   * Read the value from the code block `parseJson` would prefer, starting
+   * over when that is not the block it is read from
+   */
+  const selectBlock = (): void => {
+    const { codeBlock } = parseOptions;
+    const selected = selectCodeBlock(
+      jsonCodeFences(findCodeFences(buffer)),
+      codeBlock ?? 0
+    );
+    if (!selected || selected.contentStart === block) return;
+
+    block = selected.contentStart;
+    root = undefined;
+    parsed = 0;
+    scan = createValueScanner(grammar);
+    closed = false;
+    finished = false;
+    resume.clear();
+    emitted.clear();
+    value = undefined;
+    incompletePaths = [];
+  };
+
+  return {
+    push(chunk: string): void {
+      buffer += chunk;
+      if (!strict && endsFenceLine(chunk)) selectBlock();
+      // A closed object or array cannot grow any further
+      if (finished) return;
+      if (root === undefined) {
+        root = locateRoot(buffer, block ?? 0, strict);
+        if (root === undefined) return;
+        chunk = buffer.slice(root);
+      }
+
+      // Every parse copies the whole text, so it waits for enough new text
+      // unless the value has just ended
+      const closing = !closed && scan(chunk) !== undefined;
+      closed ||= closing;
+      if (
+        !closing &&
+        (buffer.length - parsed) * REPARSE_FRACTION < buffer.length
+      ) {
+        return;
+      }
+      parsed = buffer.length;
+
+      try {
+        checkLength(buffer, parseOptions);
+        ({ value, incompletePaths } = parseLenientAt(
+          buffer,
+          root,
+          grammar,
+          "raw"
+        ));
+      } catch {
+        // Keep the last partial value until more text arrives
+        return;
+      }
+
+      if (incompletePaths.length > 0) {
+        const incomplete = new Set(
+          incompletePaths.map((path) => JSON.stringify(path))
+        );
+        emitPartial(value, [], incomplete);
+      } else if (isContainer(value)) {
+        finished = true;
+        emitCompleted(value, []);
+      }
+    },
+
+    end(): T {
+      ({ value, incompletePaths } = parseWithFallbacks(buffer, parseOptions));
+      if (!finished) {
+        finished = true;
+        emitCompleted(value, []);
+      }
+
+      const { schema, coerce } = parseOptions;
+      return (schema ? assertSchema(schema, value, coerce) : value) as T;
+    },
+
+    get value(): T | undefined {
+      return value as T | undefined;
+    },
+
+    get incompletePaths(): JsonPath[] {
+      return incompletePaths;
+    },
+  };
+}
+
+/**
+ * Offset of the value in partial text from `from`: the first character when
+ * it can start a value, otherwise the first bracket
+ */
+function locateRoot(
+  text: string,
+  from: number,
+  strict: boolean
+): number | undefined {
+  const rest = text.slice(from);
+  const first = rest.search(/\S/);
+  if (first === -1) return undefined;
+  if (strict || /["'{[\d-]/.test(rest[first]!)) return from + first;
+
+  const bracket = rest.search(/[{[]/);
+  return bracket === -1 ? undefined : from + bracket;
+}
+
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === "object";
+}
+
+/** Keys of a container, without listing the indices of an array */
+function childKeys(value: object): {
+  length: number;
+  at(index: number): string | number;
+} {
+  if (Array.isArray(value)) return { length: value.length, at: (i) => i };
+  const keys = Object.keys(value);
+  return { length: keys.length, at: (i) => keys[i]! };
+}
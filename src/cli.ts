@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { text } from "node:stream/consumers";
+import { runCli } from "./JsonCli.js";
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  readStdin: () => text(process.stdin),
+  stdout: (output) => process.stdout.write(output),
+  stderr: (output) => process.stderr.write(output),
+});
@@ -1,2 +1,77 @@
 export { parseJson, tryParseJson } from "./JsonParser.js";
-export type { JsonParseResult, JsonParseOptions } from "./JsonParser.js";
+export type {
+  JsonParseResult,
+  JsonParseOptions,
+  JsonParseMode,
+  JsonDialect,
+} from "./JsonParser.js";
+export { stringifyJson } from "./JsonStringifier.js";
+export type { JsonStringifyOptions } from "./JsonStringifier.js";
+export type { JsonCommentSet, JsonComments } from "./JsonComments.js";
+export { parseJsonTree, findNode } from "./JsonTree.js";
+export type { JsonNode, JsonNodeType, JsonTreeOptions } from "./JsonTree.js";
+export { createJsonEditor, applyEdits } from "./JsonEditor.js";
+export type { JsonEdit, JsonEditOptions, JsonEditor } from "./JsonEditor.js";
+export { JsonParseError } from "./JsonParseError.js";
+export type {
+  JsonParseErrorCode,
+  JsonParseErrorInfo,
+  JsonParseStage,
+} from "./JsonParseError.js";
+export type {
+  JsonRepair,
+  JsonRepairKind,
+  JsonRepairReport,
+} from "./JsonRepairReport.js";
+export {
+  registerStrategy,
+  unregisterStrategy,
+  listStrategies,
+} from "./JsonStrategy.js";
+export type {
+  JsonCandidate,
+  JsonGrammarFeature,
+  JsonRepairStrategy,
+  JsonStrategyRegistration,
+} from "./JsonStrategy.js";
+export { lintJson } from "./JsonLint.js";
+export type {
+  JsonLintIssue,
+  JsonLintKind,
+  JsonLintOptions,
+  JsonLintResult,
+} from "./JsonLint.js";
+export { extractAllJson } from "./JsonExtractor.js";
+export type { ExtractedJson, JsonExtractOptions } from "./JsonExtractor.js";
+export { transforms } from "./JsonTransform.js";
+export type { JsonReviver, JsonTransform } from "./JsonTransform.js";
+export type { JsonSourceLocation, JsonSourceMap } from "./JsonSourceMap.js";
+export { formatJsonPath, formatJsonPointer } from "./JsonPath.js";
+export type { JsonPath } from "./JsonPath.js";
+export { createStreamingParser } from "./StreamingParser.js";
+export type {
+  StreamingParser,
+  StreamingParseOptions,
+  StreamingPropertyEvent,
+  StreamingItemEvent,
+} from "./StreamingParser.js";
+export { parseJsonLines, parseJsonSequence } from "./JsonSequence.js";
+export type { JsonRecord, JsonChunkSource } from "./JsonSequence.js";
+export {
+  createJsonTransform,
+  createJsonTransformStream,
+} from "./JsonStreams.js";
+export type { JsonStreamOptions } from "./JsonStreams.js";
+export { schema, validateSchema, JsonValidationError } from "./Schema.js";
+export type {
+  Schema,
+  SchemaDefinition,
+  OptionalSchema,
+  Infer,
+  JsonSchemaIssue,
+  JsonCoercion,
+  JsonCoercionKind,
+  JsonCoercionOptions,
+  SchemaValidationResult,
+  StandardSchemaV1,
+} from "./Schema.js";
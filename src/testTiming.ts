@@ -0,0 +1,33 @@
+import { expect } from "vitest";
+
+const RUNS = 3;
+
+/**
+ * Assert that a run grows linearly with the size of its input, by timing it
+ * on `size` and on four times that size. A linear run takes about four times
+ * as long and a quadratic one sixteen times; each size is timed at its
+ * fastest run, so a busy machine slows both alike instead of failing.
+ * @param run - Work to time on an input of the given size
+ * @param size - The smaller size, large enough to take a few milliseconds
+ */
+export async function expectLinearTime(
+  run: (size: number) => unknown,
+  size: number
+): Promise<void> {
+  const small = await fastest(run, size);
+  const large = await fastest(run, size * 4);
+  expect(large / Math.max(small, 1)).toBeLessThan(8);
+}
+
+async function fastest(
+  run: (size: number) => unknown,
+  size: number
+): Promise<number> {
+  let best = Infinity;
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    await run(size);
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}